@@ -0,0 +1,237 @@
+import { Fixed, FIXED_ONE, fAdd, fMul, fSub } from './FixedPoint';
+import { StateHash } from './StateHash';
+
+/**
+ * 随机数生成器的完整状态（4个无符号32位整数），可直接序列化到快照
+ */
+export type RandomState = number[];
+
+/**
+ * 各命名子流的状态，按名称索引
+ */
+export interface RandomStreamsState {
+    [name: string]: RandomState;
+}
+
+/**
+ * 32位循环左移
+ */
+function rotl(x: number, k: number): number {
+    return (x << k) | (x >>> (32 - k));
+}
+
+/**
+ * 确定性随机数生成器 (xoshiro128**)
+ * 只使用32位整数运算（Math.imul、位运算），各平台、各 JS 引擎结果完全一致；
+ * 周期 2^128 - 1，状态可以完整保存和恢复
+ */
+export class DeterministicRandom {
+    private _s0: number = 0;
+    private _s1: number = 0;
+    private _s2: number = 0;
+    private _s3: number = 0;
+
+    constructor(seed: number = 1) {
+        this.setSeed(seed);
+    }
+
+    /**
+     * 由种子派生命名子流：相同的种子和名称总是得到相同的序列，不同名称的序列互不影响
+     */
+    public static forStream(seed: number, name: string): DeterministicRandom {
+        return new DeterministicRandom(new StateHash().addInt(seed).addString(name).digest());
+    }
+
+    /**
+     * 设置随机种子
+     * 用 splitmix32 将32位种子扩展为128位状态，相近的种子也会得到差异很大的状态
+     */
+    public setSeed(seed: number): void {
+        let x = seed >>> 0;
+        const next = () => {
+            x = (x + 0x9E3779B9) | 0;
+            let z = x;
+            z = Math.imul(z ^ (z >>> 16), 0x85EBCA6B);
+            z = Math.imul(z ^ (z >>> 13), 0xC2B2AE35);
+            return (z ^ (z >>> 16)) >>> 0;
+        };
+        this.setState([next(), next(), next(), next()]);
+    }
+
+    /**
+     * 获取当前状态
+     */
+    public getState(): RandomState {
+        return [this._s0 >>> 0, this._s1 >>> 0, this._s2 >>> 0, this._s3 >>> 0];
+    }
+
+    /**
+     * 恢复状态，状态全为 0 时生成器无法工作，抛出异常
+     */
+    public setState(state: RandomState): void {
+        if (!state || state.length !== 4 || state.every(word => (word | 0) === 0)) {
+            throw new Error(`无效的随机数状态: ${JSON.stringify(state)}`);
+        }
+        this._s0 = state[0] | 0;
+        this._s1 = state[1] | 0;
+        this._s2 = state[2] | 0;
+        this._s3 = state[3] | 0;
+    }
+
+    /**
+     * 复制一个状态相同的生成器，之后两者各自前进、互不影响（用于预览或调试，不扰动原序列）
+     */
+    public fork(): DeterministicRandom {
+        const random = new DeterministicRandom();
+        random.setState(this.getState());
+        return random;
+    }
+
+    /**
+     * 生成无符号32位随机整数 [0, 2^32)
+     */
+    public nextUint32(): number {
+        const result = Math.imul(rotl(Math.imul(this._s1, 5), 7), 9);
+        const t = this._s1 << 9;
+
+        this._s2 ^= this._s0;
+        this._s3 ^= this._s1;
+        this._s1 ^= this._s2;
+        this._s0 ^= this._s3;
+        this._s2 ^= t;
+        this._s3 = rotl(this._s3, 11);
+
+        return result >>> 0;
+    }
+
+    /**
+     * 生成指定范围的随机整数 [min, max]，拒绝采样保证分布均匀
+     */
+    public nextInt(min: number, max: number): number {
+        const range = max - min + 1;
+        if (range <= 1) {
+            return min;
+        }
+        // 丢弃末尾不足一整段的值，避免取模偏差
+        const limit = 0x100000000 - (0x100000000 % range);
+        let value = this.nextUint32();
+        while (value >= limit) {
+            value = this.nextUint32();
+        }
+        return min + value % range;
+    }
+
+    /**
+     * 生成定点数 [0, FIXED_ONE)
+     */
+    public nextFixed(): Fixed {
+        return (this.nextUint32() >>> 16) as Fixed;
+    }
+
+    /**
+     * 生成指定范围的定点数 [min, max)
+     */
+    public nextFixedRange(min: Fixed, max: Fixed): Fixed {
+        return fAdd(min, fMul(fSub(max, min), this.nextFixed()));
+    }
+
+    /**
+     * 生成随机布尔值
+     */
+    public nextBoolean(): boolean {
+        return (this.nextUint32() & 0x80000000) !== 0;
+    }
+
+    /**
+     * 生成浮点随机数 [0, 1)
+     * 由32位整数除以 2^32 得到，结果精确；模拟内部应优先使用整数或定点数输出
+     */
+    public next(): number {
+        return this.nextUint32() / 0x100000000;
+    }
+
+    /**
+     * 生成指定范围的浮点随机数 [min, max)
+     */
+    public nextRange(min: number, max: number): number {
+        return min + this.next() * (max - min);
+    }
+}
+
+/**
+ * 命名随机子流
+ * 每个子流（出生、道具、AI 等）由对局种子和名称派生，首次使用时创建；
+ * 某个系统多取或少取随机数不会改变其他系统得到的序列
+ */
+export class RandomStreams {
+    private _seed: number = 0;
+    private _streams: Map<string, DeterministicRandom> = new Map();
+
+    /**
+     * 以新的对局种子重置，清空所有子流
+     */
+    public reset(seed: number): void {
+        this._seed = seed;
+        this._streams.clear();
+    }
+
+    /**
+     * 对局种子
+     */
+    public get seed(): number {
+        return this._seed;
+    }
+
+    /**
+     * 获取子流，不存在时创建
+     */
+    public get(name: string): DeterministicRandom {
+        let stream = this._streams.get(name);
+        if (!stream) {
+            stream = DeterministicRandom.forStream(this._seed, name);
+            this._streams.set(name, stream);
+        }
+        return stream;
+    }
+
+    /**
+     * 已创建的子流名称（按字符编码排序，保证各端顺序一致）
+     */
+    public get names(): string[] {
+        return Array.from(this._streams.keys()).sort((a, b) => (a < b ? -1 : (a > b ? 1 : 0)));
+    }
+
+    /**
+     * 保存所有已创建子流的状态
+     */
+    public saveState(): RandomStreamsState {
+        const state: RandomStreamsState = {};
+        this.names.forEach(name => {
+            state[name] = this._streams.get(name).getState();
+        });
+        return state;
+    }
+
+    /**
+     * 恢复对局种子和各子流的状态，未保存的子流在之后首次使用时重新派生
+     */
+    public restoreState(seed: number, state: RandomStreamsState): void {
+        this.reset(seed);
+        Object.keys(state || {}).forEach(name => {
+            const stream = new DeterministicRandom();
+            stream.setState(state[name]);
+            this._streams.set(name, stream);
+        });
+    }
+
+    /**
+     * 将对局种子和所有子流的状态加入哈希
+     */
+    public addToHash(hash: StateHash): void {
+        hash.addInt(this._seed);
+        this.names.forEach(name => {
+            hash.addString(name);
+            this._streams.get(name).getState().forEach(word => hash.addInt(word));
+        });
+    }
+}
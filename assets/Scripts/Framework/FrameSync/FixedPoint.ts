@@ -1,7 +1,3 @@
-import { _decorator, Component, Node } from 'cc';
-
-const { ccclass, property } = _decorator;
-
 // --- 配置 ---
 // 我们用一个普通的 number 类型来存储定点数。
 // JS 的 number 是64位浮点数，但其整数部分可以精确表示到53位，
@@ -18,47 +14,230 @@ const PRECISION = 16;
 const FACTOR = 1 << PRECISION;
 
 /**
- * 用于计算乘法时的中间量，防止溢出
+ * 定点数取值范围（32位有符号整数）
  */
-const FACTOR_BI = BigInt(FACTOR);
+const MAX_RAW = 0x7FFFFFFF;
+const MIN_RAW = -0x80000000;
 
-// --- 基础运算 ---
+/**
+ * 定点数类型
+ * 底层仍是 number，但带有类型标记：浮点数不能直接当作定点数使用，
+ * 必须经过 fromFloat/fromInt/fromRaw 转换；定点数之间的 + - * / 结果是普通 number，
+ * 需要使用 fAdd/fSub/fMul/fDiv 等函数运算，混用时会在编译期报错
+ */
+export type Fixed = number & { readonly __fixedBrand: never };
+
+// --- 调试检查 ---
+
+let debugChecks = false;
+
+/**
+ * 开启或关闭调试检查
+ * 开启后每次转换和运算都会检查结果是否为整数且在32位范围内，超出时抛出 RangeError。
+ * JS 的 number 不会在32位处溢出，这类错误在其他平台的32位定点数实现中才会暴露，
+ * 建议在调试构建中开启，发布构建中关闭
+ */
+export function setFixedPointDebug(enabled: boolean): void {
+    debugChecks = enabled;
+}
+
+/**
+ * 是否已开启调试检查
+ */
+export function isFixedPointDebug(): boolean {
+    return debugChecks;
+}
+
+/**
+ * 标记为定点数，调试模式下检查取值范围
+ */
+function checked(value: number): Fixed {
+    if (debugChecks && !(Number.isInteger(value) && value >= MIN_RAW && value <= MAX_RAW)) {
+        throw new RangeError(`定点数超出32位范围: ${value}`);
+    }
+    return value as Fixed;
+}
+
+// --- 常量 ---
+
+/**
+ * 定点数 0
+ */
+export const FIXED_ZERO = 0 as Fixed;
+
+/**
+ * 定点数 1
+ */
+export const FIXED_ONE = FACTOR as Fixed;
+
+/**
+ * 定点数 0.5
+ */
+export const FIXED_HALF = (FACTOR >> 1) as Fixed;
+
+/**
+ * 定点数 π（round(π × 65536)，直接写出整数，不依赖运行环境的浮点运算）
+ */
+export const FIXED_PI = 205887 as Fixed;
+
+/**
+ * 定点数 2π，三角函数以此为周期
+ */
+export const FIXED_TWO_PI = 411775 as Fixed;
+
+/**
+ * 定点数 π/2
+ */
+export const FIXED_HALF_PI = 102944 as Fixed;
+
+// --- 转换 ---
+// 模拟内部只使用定点数；浮点数只出现在配置读取和渲染两端，转换必须显式写出
 
 /**
  * 将浮点数转换为定点数
  */
-export function fromFloat(n: number): number {
-    return Math.round(n * FACTOR);
+export function fromFloat(n: number): Fixed {
+    return checked(Math.round(n * FACTOR));
+}
+
+/**
+ * 将整数转换为定点数（结果精确，不经过浮点舍入）
+ */
+export function fromInt(n: number): Fixed {
+    return checked(n * FACTOR);
+}
+
+/**
+ * 将底层整数值直接视为定点数（用于读取快照、回放等序列化数据）
+ */
+export function fromRaw(raw: number): Fixed {
+    return checked(raw);
 }
 
 /**
  * 将定点数转换为浮点数 (主要用于渲染)
  */
-export function toFloat(n: number): number {
+export function toFloat(n: Fixed): number {
     return n / FACTOR;
 }
 
 /**
- * 定点数乘法
+ * 将定点数向下取整为整数（积分等整数结果）
+ */
+export function toInt(n: Fixed): number {
+    return Math.floor(n / FACTOR);
+}
+
+// --- 基础运算 ---
+
+/**
+ * 定点数加法
+ */
+export function fAdd(a: Fixed, b: Fixed): Fixed {
+    return checked(a + b);
+}
+
+/**
+ * 定点数减法
+ */
+export function fSub(a: Fixed, b: Fixed): Fixed {
+    return checked(a - b);
+}
+
+/**
+ * 定点数取负
+ */
+export function fNeg(a: Fixed): Fixed {
+    return checked(a === 0 ? 0 : -a);
+}
+
+/**
+ * 定点数绝对值
  */
-export function fMul(a: number, b: number): number {
-    // 使用 BigInt 来执行乘法，避免中间结果溢出 number 的安全整数范围
-    return Number((BigInt(a) * BigInt(b)) / FACTOR_BI);
+export function fAbs(a: Fixed): Fixed {
+    return checked(Math.abs(a));
 }
 
 /**
- * 定点数除法
+ * 按符号返回结果，并避免返回 -0
  */
-export function fDiv(a: number, b: number): number {
-    // 使用 BigInt 来执行，先将a放大，再做除法，保证精度
-    return Number((BigInt(a) * FACTOR_BI) / BigInt(b));
+function withSign(magnitude: number, negative: boolean): number {
+    return negative && magnitude !== 0 ? -magnitude : magnitude;
+}
+
+/**
+ * 定点数乘法，结果向零取整
+ * 不使用 BigInt：乘积在安全整数范围内时直接计算，否则拆成高低16位分别相乘
+ */
+export function fMul(a: Fixed, b: Fixed): Fixed {
+    const product = a * b;
+    // 真实乘积小于 2^53 时浮点乘积是精确的，除以 2^16 也是精确的
+    if (product <= Number.MAX_SAFE_INTEGER && product >= -Number.MAX_SAFE_INTEGER) {
+        return checked(withSign(Math.floor(Math.abs(product) / FACTOR), product < 0));
+    }
+
+    // (ah·2^16 + al)(bh·2^16 + bl) / 2^16 = ah·bh·2^16 + ah·bl + al·bh + al·bl / 2^16
+    const absA = Math.abs(a);
+    const absB = Math.abs(b);
+    const ah = Math.floor(absA / FACTOR);
+    const al = absA - ah * FACTOR;
+    const bh = Math.floor(absB / FACTOR);
+    const bl = absB - bh * FACTOR;
+    const magnitude = ah * bh * FACTOR + ah * bl + al * bh + Math.floor(al * bl / FACTOR);
+    return checked(withSign(magnitude, (a < 0) !== (b < 0)));
+}
+
+/**
+ * 定点数除法，结果向零取整，除数为 0 时抛出 RangeError
+ * 不使用 BigInt：被除数放大后在安全整数范围内时直接相除并修正余数，否则逐位长除
+ */
+export function fDiv(a: Fixed, b: Fixed): Fixed {
+    if (b === 0) {
+        throw new RangeError('Division by zero');
+    }
+    const negative = (a < 0) !== (b < 0);
+    const absA = Math.abs(a);
+    const absB = Math.abs(b);
+
+    const scaled = absA * FACTOR;
+    if (scaled <= Number.MAX_SAFE_INTEGER) {
+        return checked(withSign(floorDiv(scaled, absB), negative));
+    }
+
+    // 先求整数部分，再逐位求出16位小数部分
+    let quotient = floorDiv(absA, absB);
+    let remainder = absA - quotient * absB;
+    for (let i = 0; i < PRECISION; i++) {
+        quotient *= 2;
+        remainder *= 2;
+        if (remainder >= absB) {
+            remainder -= absB;
+            quotient++;
+        }
+    }
+    return checked(withSign(quotient, negative));
+}
+
+/**
+ * 非负安全整数的整除（向下取整）
+ * 浮点除法的舍入可能让商差 1，用余数修正
+ */
+function floorDiv(dividend: number, divisor: number): number {
+    let quotient = Math.floor(dividend / divisor);
+    const remainder = dividend - quotient * divisor;
+    if (remainder < 0) {
+        quotient--;
+    } else if (remainder >= divisor) {
+        quotient++;
+    }
+    return quotient;
 }
 
 /**
  * 定点数开方 (使用牛顿迭代法，仅适用于正数)
  */
-export function fSqrt(n: number): number {
-    if (n <= 0) return 0;
+export function fSqrt(n: Fixed): Fixed {
+    if (n <= 0) return FIXED_ZERO;
     // 将其转换为一个大整数以保留精度
     const n_bi = BigInt(n) << BigInt(PRECISION);
 
@@ -66,7 +245,7 @@ export function fSqrt(n: number): number {
     const bitLength = BigInt(n_bi.toString(2).length);
     let x = 1n << (bitLength / 2n);
     if (x === 0n) { // 处理 n_bi 为 0 的边界情况
-        return 0;
+        return FIXED_ZERO;
     }
     
     // 牛顿迭代法
@@ -74,7 +253,169 @@ export function fSqrt(n: number): number {
         x = (x + n_bi / x) >> 1n;
     }
     
-    return Number(x);
+    return checked(Number(x));
+}
+
+/**
+ * 非负整数的整数平方根（向下取整）
+ */
+function isqrt(n: bigint): number {
+    if (n <= 0n) return 0;
+    // 初始值不小于真实平方根，牛顿迭代单调递减到结果
+    let x = 1n << BigInt((n.toString(2).length + 1) >> 1);
+    while (true) {
+        const next = (x + n / x) >> 1n;
+        if (next >= x) {
+            return Number(x);
+        }
+        x = next;
+    }
+}
+
+// --- 三角函数 ---
+// 查表加线性插值实现。表中的值由 round(f(x) × 65536) 离线生成并直接写出，
+// 不在运行时调用 Math.sin/Math.atan，保证各平台、各 JS 引擎结果完全一致。
+
+/**
+ * 四分之一周期的分段数（整个周期 4 × SIN_SEGMENTS 段）
+ */
+const SIN_SEGMENTS = 256;
+
+/**
+ * sin(i × π/2 / 256)，i = 0..256
+ */
+const SIN_TABLE: readonly number[] = [
+    0, 402, 804, 1206, 1608, 2010, 2412, 2814, 3216, 3617, 4019, 4420, 4821, 5222, 5623, 6023,
+    6424, 6824, 7224, 7623, 8022, 8421, 8820, 9218, 9616, 10014, 10411, 10808, 11204, 11600, 11996, 12391,
+    12785, 13180, 13573, 13966, 14359, 14751, 15143, 15534, 15924, 16314, 16703, 17091, 17479, 17867, 18253, 18639,
+    19024, 19409, 19792, 20175, 20557, 20939, 21320, 21699, 22078, 22457, 22834, 23210, 23586, 23961, 24335, 24708,
+    25080, 25451, 25821, 26190, 26558, 26925, 27291, 27656, 28020, 28383, 28745, 29106, 29466, 29824, 30182, 30538,
+    30893, 31248, 31600, 31952, 32303, 32652, 33000, 33347, 33692, 34037, 34380, 34721, 35062, 35401, 35738, 36075,
+    36410, 36744, 37076, 37407, 37736, 38064, 38391, 38716, 39040, 39362, 39683, 40002, 40320, 40636, 40951, 41264,
+    41576, 41886, 42194, 42501, 42806, 43110, 43412, 43713, 44011, 44308, 44604, 44898, 45190, 45480, 45769, 46056,
+    46341, 46624, 46906, 47186, 47464, 47741, 48015, 48288, 48559, 48828, 49095, 49361, 49624, 49886, 50146, 50404,
+    50660, 50914, 51166, 51417, 51665, 51911, 52156, 52398, 52639, 52878, 53114, 53349, 53581, 53812, 54040, 54267,
+    54491, 54714, 54934, 55152, 55368, 55582, 55794, 56004, 56212, 56418, 56621, 56823, 57022, 57219, 57414, 57607,
+    57798, 57986, 58172, 58356, 58538, 58718, 58896, 59071, 59244, 59415, 59583, 59750, 59914, 60075, 60235, 60392,
+    60547, 60700, 60851, 60999, 61145, 61288, 61429, 61568, 61705, 61839, 61971, 62101, 62228, 62353, 62476, 62596,
+    62714, 62830, 62943, 63054, 63162, 63268, 63372, 63473, 63572, 63668, 63763, 63854, 63944, 64031, 64115, 64197,
+    64277, 64354, 64429, 64501, 64571, 64639, 64704, 64766, 64827, 64884, 64940, 64993, 65043, 65091, 65137, 65180,
+    65220, 65259, 65294, 65328, 65358, 65387, 65413, 65436, 65457, 65476, 65492, 65505, 65516, 65525, 65531, 65535,
+    65536
+];
+
+/**
+ * atan(i / 256)，i = 0..256
+ */
+const ATAN_TABLE: readonly number[] = [
+    0, 256, 512, 768, 1024, 1280, 1536, 1792, 2047, 2303, 2559, 2814, 3070, 3325, 3580, 3836,
+    4091, 4346, 4600, 4855, 5110, 5364, 5618, 5872, 6126, 6380, 6633, 6887, 7140, 7392, 7645, 7898,
+    8150, 8402, 8653, 8905, 9156, 9407, 9657, 9908, 10158, 10408, 10657, 10906, 11155, 11403, 11652, 11899,
+    12147, 12394, 12641, 12887, 13133, 13379, 13624, 13869, 14114, 14358, 14601, 14845, 15088, 15330, 15572, 15814,
+    16055, 16296, 16536, 16776, 17015, 17254, 17492, 17730, 17968, 18205, 18441, 18677, 18913, 19148, 19382, 19616,
+    19850, 20083, 20315, 20547, 20779, 21009, 21240, 21469, 21699, 21927, 22156, 22383, 22610, 22836, 23062, 23288,
+    23512, 23737, 23960, 24183, 24406, 24627, 24849, 25069, 25289, 25509, 25727, 25946, 26163, 26380, 26597, 26813,
+    27028, 27242, 27456, 27670, 27882, 28094, 28306, 28517, 28727, 28936, 29145, 29354, 29561, 29768, 29975, 30180,
+    30386, 30590, 30794, 30997, 31200, 31402, 31603, 31803, 32003, 32203, 32401, 32600, 32797, 32994, 33190, 33385,
+    33580, 33774, 33968, 34160, 34353, 34544, 34735, 34925, 35115, 35304, 35492, 35680, 35867, 36053, 36239, 36424,
+    36608, 36792, 36975, 37158, 37340, 37521, 37701, 37881, 38060, 38239, 38417, 38594, 38771, 38947, 39123, 39297,
+    39472, 39645, 39818, 39990, 40162, 40333, 40503, 40673, 40842, 41010, 41178, 41346, 41512, 41678, 41844, 42008,
+    42172, 42336, 42499, 42661, 42823, 42984, 43145, 43304, 43464, 43622, 43780, 43938, 44095, 44251, 44407, 44562,
+    44716, 44870, 45024, 45176, 45328, 45480, 45631, 45781, 45931, 46080, 46229, 46377, 46525, 46672, 46818, 46964,
+    47109, 47254, 47398, 47542, 47685, 47827, 47969, 48111, 48251, 48392, 48531, 48671, 48809, 48947, 49085, 49222,
+    49359, 49495, 49630, 49765, 49899, 50033, 50167, 50299, 50432, 50563, 50695, 50826, 50956, 51086, 51215, 51344,
+    51472
+];
+
+/**
+ * 四分之一周期内的正弦，position 为 [0, 2^24]（整数部分为表下标，低16位为插值比例）
+ */
+function sinQuarter(position: number): number {
+    const index = position >> PRECISION;
+    if (index >= SIN_SEGMENTS) {
+        return SIN_TABLE[SIN_SEGMENTS];
+    }
+    const frac = position & (FACTOR - 1);
+    const a = SIN_TABLE[index];
+    // 插值结果四舍五入，使 π/2、π 等常量处的值与表中端点一致
+    return a + (((SIN_TABLE[index + 1] - a) * frac + (FACTOR >> 1)) >> PRECISION);
+}
+
+/**
+ * [0, π/2] 内角度的正弦（超出部分按 π/2 计算）
+ */
+function sinFirstQuadrant(angle: number): number {
+    // 换算为四分之一周期内的位置：高8位为段号，低16位为段内比例
+    const position = Math.floor(Math.min(angle, FIXED_HALF_PI) * (SIN_SEGMENTS * FACTOR) / FIXED_HALF_PI);
+    return sinQuarter(position);
+}
+
+/**
+ * 角度的绝对值换算到 [0, 2π) 内（不经过 checked，最小值 -2^31 的绝对值也可以计算）
+ */
+function reduceAngleMagnitude(angle: Fixed): number {
+    return Math.abs(angle) % FIXED_TWO_PI;
+}
+
+/**
+ * 定点数正弦（角度为定点数弧度）
+ * 按对称性换算到 [0, π/2] 后查表：sin(-a) 与 -sin(a) 完全相同，0、π/2、π 处的值精确为 0、1、0
+ */
+export function fSin(angle: Fixed): Fixed {
+    let a = reduceAngleMagnitude(angle);
+    let negative = angle < 0;
+    if (a >= FIXED_PI) {
+        a -= FIXED_PI;
+        negative = !negative;
+    }
+    if (a > FIXED_HALF_PI) {
+        a = FIXED_PI - a;
+    }
+    return withSign(sinFirstQuadrant(a), negative) as Fixed;
+}
+
+/**
+ * 定点数余弦（角度为定点数弧度）
+ * 按对称性换算到 [0, π] 后查表：cos(-a) 与 cos(a) 完全相同，任意32位角度都不会溢出
+ */
+export function fCos(angle: Fixed): Fixed {
+    let a = reduceAngleMagnitude(angle);
+    if (a > FIXED_PI) {
+        a = FIXED_TWO_PI - a;
+    }
+    if (a <= FIXED_HALF_PI) {
+        return sinFirstQuadrant(FIXED_HALF_PI - a) as Fixed;
+    }
+    return withSign(sinFirstQuadrant(a - FIXED_HALF_PI), true) as Fixed;
+}
+
+/**
+ * [0, 1] 范围内比值的反正切
+ */
+function atanUnit(ratio: number): number {
+    const index = ratio >> 8;
+    if (index >= 256) {
+        return ATAN_TABLE[256];
+    }
+    const frac = ratio & 0xFF;
+    const a = ATAN_TABLE[index];
+    return a + (((ATAN_TABLE[index + 1] - a) * frac + 0x80) >> 8);
+}
+
+/**
+ * 定点数反正切，返回 (-π, π] 的定点数弧度，atan2(0, 0) 为 0
+ */
+export function fAtan2(y: Fixed, x: Fixed): Fixed {
+    if (x === 0 && y === 0) {
+        return FIXED_ZERO;
+    }
+    // 最小值 -2^31 的绝对值超出32位范围，按 -(2^31 - 1) 计算，角度误差远小于查表精度
+    const ax = fAbs(Math.max(x, -MAX_RAW) as Fixed);
+    const ay = fAbs(Math.max(y, -MAX_RAW) as Fixed);
+    // 先求第一象限内的角度，比值始终不大于 1
+    const angle = ax >= ay ? atanUnit(fDiv(ay, ax)) : FIXED_HALF_PI - atanUnit(fDiv(ax, ay));
+    const quadrantAngle = x < 0 ? FIXED_PI - angle : angle;
+    return withSign(quadrantAngle, y < 0) as Fixed;
 }
 
 
@@ -82,47 +423,68 @@ export function fSqrt(n: number): number {
  * 用于定点数运算的二维向量
  */
 export class FixedVec2 {
-    public x: number;
-    public y: number;
+    public x: Fixed;
+    public y: Fixed;
 
-    constructor(x: number = 0, y: number = 0) {
+    constructor(x: Fixed = FIXED_ZERO, y: Fixed = FIXED_ZERO) {
         this.x = x;
         this.y = y;
     }
 
-    public static from(v: {x: number, y: number}): FixedVec2 {
+    public static from(v: {x: Fixed, y: Fixed}): FixedVec2 {
         return new FixedVec2(v.x, v.y);
     }
+
+    /**
+     * 由浮点坐标创建（配置读取等边界处使用）
+     */
+    public static fromFloat(x: number, y: number): FixedVec2 {
+        return new FixedVec2(fromFloat(x), fromFloat(y));
+    }
     
     public clone(): FixedVec2 {
         return new FixedVec2(this.x, this.y);
     }
 
-    public set(x: number, y: number): void {
+    public set(x: Fixed, y: Fixed): void {
         this.x = x;
         this.y = y;
     }
 
     public add(other: FixedVec2): FixedVec2 {
-        this.x += other.x;
-        this.y += other.y;
+        this.x = fAdd(this.x, other.x);
+        this.y = fAdd(this.y, other.y);
+        return this;
+    }
+
+    public sub(other: FixedVec2): FixedVec2 {
+        this.x = fSub(this.x, other.x);
+        this.y = fSub(this.y, other.y);
         return this;
     }
 
-    public multiplyScalar(s: number): FixedVec2 {
+    public multiplyScalar(s: Fixed): FixedVec2 {
         this.x = fMul(this.x, s);
         this.y = fMul(this.y, s);
         return this;
     }
 
-    public lengthSqr(): number {
-        const x2 = fMul(this.x, this.x);
-        const y2 = fMul(this.y, this.y);
-        return x2 + y2;
+    /**
+     * 长度的平方
+     * * 分量超过 128 时结果可能超出32位范围，比较距离时应使用 length/distance
+     */
+    public lengthSqr(): Fixed {
+        return fAdd(fMul(this.x, this.x), fMul(this.y, this.y));
     }
 
-    public length(): number {
-        return fSqrt(this.lengthSqr());
+    /**
+     * 长度
+     * 平方和在64位整数中计算后再开方，结果精确（向下取整），分量很大时也不会溢出
+     */
+    public length(): Fixed {
+        const x = BigInt(this.x);
+        const y = BigInt(this.y);
+        return checked(isqrt(x * x + y * y));
     }
 
     public normalize(): FixedVec2 {
@@ -132,67 +494,65 @@ export class FixedVec2 {
         this.y = fDiv(this.y, len);
         return this;
     }
-} 
 
-/**
- * 确定性随机数生成器 (基于线性同余发生器)
- * 保证所有客户端使用相同种子时产生相同的随机数序列
- */
-export class DeterministicRandom {
-    private seed: number;
-    private readonly a: number = 1664525;
-    private readonly c: number = 1013904223;
-    private readonly m: number = 0x100000000; // 2^32
-    
-    constructor(seed: number = 1) {
-        this.seed = seed;
-    }
-    
     /**
-     * 设置随机种子
+     * 点积
      */
-    public setSeed(seed: number): void {
-        this.seed = seed;
+    public dot(other: FixedVec2): Fixed {
+        return fAdd(fMul(this.x, other.x), fMul(this.y, other.y));
     }
-    
+
     /**
-     * 获取当前种子
+     * 二维叉积（z 分量），other 在逆时针方向时为正
      */
-    public getSeed(): number {
-        return this.seed;
+    public cross(other: FixedVec2): Fixed {
+        return fSub(fMul(this.x, other.y), fMul(this.y, other.x));
     }
-    
+
     /**
-     * 生成下一个随机数 [0, 1)
+     * 距离的平方，同 lengthSqr 只适用于较近的两点
      */
-    public next(): number {
-        this.seed = (this.a * this.seed + this.c) % this.m;
-        return this.seed / this.m;
+    public distanceSqr(other: FixedVec2): Fixed {
+        return this.clone().sub(other).lengthSqr();
     }
-    
+
+    public distance(other: FixedVec2): Fixed {
+        return this.clone().sub(other).length();
+    }
+
     /**
-     * 生成指定范围的随机数 [min, max)
+     * 向 other 线性插值，t 为定点数比例（0 为自身，FIXED_ONE 为 other）
      */
-    public nextRange(min: number, max: number): number {
-        return min + this.next() * (max - min);
+    public lerp(other: FixedVec2, t: Fixed): FixedVec2 {
+        this.x = fAdd(this.x, fMul(fSub(other.x, this.x), t));
+        this.y = fAdd(this.y, fMul(fSub(other.y, this.y), t));
+        return this;
     }
-    
+
     /**
-     * 生成指定范围的随机整数 [min, max]
+     * 逆时针旋转，angle 为定点数弧度
      */
-    public nextInt(min: number, max: number): number {
-        return Math.floor(this.nextRange(min, max + 1));
+    public rotate(angle: Fixed): FixedVec2 {
+        const sin = fSin(angle);
+        const cos = fCos(angle);
+        const x = fSub(fMul(this.x, cos), fMul(this.y, sin));
+        const y = fAdd(fMul(this.x, sin), fMul(this.y, cos));
+        this.x = x;
+        this.y = y;
+        return this;
     }
-    
+
     /**
-     * 生成随机布尔值
+     * 长度超过 maxLength 时缩放到 maxLength，方向不变
      */
-    public nextBoolean(): boolean {
-        return this.next() < 0.5;
+    public clampLength(maxLength: Fixed): FixedVec2 {
+        const len = this.length();
+        if (len <= maxLength || len === 0) return this;
+        // 先求缩放比例（不大于 1）再相乘，避免 分量 × maxLength 溢出
+        return this.multiplyScalar(fDiv(maxLength, len));
     }
-}
 
-/**
- * 全局确定性随机数生成器实例
- */
-export const globalRandom = new DeterministicRandom(); 
\ No newline at end of file
+    public equals(other: FixedVec2): boolean {
+        return this.x === other.x && this.y === other.y;
+    }
+}
@@ -1,34 +1,78 @@
 import { _decorator, Component, Node, director } from 'cc';
 import { NetworkManager, MessageType, NetworkMessage } from '../Network/NetworkManager';
 import { Logger } from '../Logger';
+import { ReplayRecorder, ReplayData, ReplayHeader } from './ReplayRecorder';
+import { JitterBuffer, JitterStats } from './JitterBuffer';
+import { FrameData, FrameDataMessage, PlayerInput, InputType, InputAck } from './FrameTypes';
 const { ccclass, property } = _decorator;
 
 /**
- * 帧数据接口
+ * 状态快照提供者接口
+ * 预测模式下，帧同步管理器在执行每一帧前保存快照，预测错误时恢复快照并重新模拟
  */
-export interface FrameData {
-    frameId: number;
-    inputs: PlayerInput[];
-    timestamp: number;
+export interface IStateSnapshotProvider {
+    /**
+     * 保存当前的确定性状态，返回值必须与之后的模拟完全独立（深拷贝）
+     */
+    saveState(): any;
+
+    /**
+     * 恢复到之前保存的状态
+     */
+    restoreState(state: any): void;
 }
 
 /**
- * 玩家输入接口
+ * 帧回调：每执行一帧调用一次
+ */
+export type FrameCallback = (frameData: FrameData, fixedDeltaTime: number) => void;
+
+/**
+ * 帧率变化回调：对局配置改变逻辑帧率后调用
+ */
+export type FrameRateListener = (frameRate: number) => void;
+
+/**
+ * 已注册的帧回调
  */
-export interface PlayerInput {
-    playerId: string;
-    inputType: InputType;
-    inputData: any;
-    timestamp: number;
+interface FrameCallbackEntry {
+    callback: FrameCallback;
+    priority: number;
+    order: number; // 注册序号，优先级相同时按注册顺序执行
 }
 
 /**
- * 输入类型枚举
+ * 帧缓冲统计信息
  */
-export enum InputType {
-    MOVE = 'move',
-    STOP = 'stop',
-    SKILL = 'skill'
+export interface FrameBufferStats extends JitterStats {
+    currentDepth: number; // 当前连续可执行的帧数
+    playbackRate: number; // 当前播放速度（每个逻辑间隔执行的帧数）
+    stallCount: number; // 缓冲耗尽等待的次数
+    fastForwardCount: number; // 一个逻辑间隔执行多帧的次数
+    catchUpCount: number; // 进入追帧的次数
+    resendRequestCount: number; // 请求服务器重发帧的次数
+    idealFrame: number; // 根据时钟同步推算的理想本地帧，无法推算时为 -1
+}
+
+/**
+ * 输入发送统计信息
+ */
+export interface InputStats {
+    sequence: number; // 最近发送的输入序号
+    ackedSequence: number; // 服务器已确认的最高序号
+    authoritativeSequence: number; // 生效帧已收到的最高序号（此序号及之前的输入已成为权威数据）
+    landedFrame: number; // 最近确认的输入的生效帧
+    pendingCount: number; // 已发送但尚未确认的输入数
+    ackLatency: number; // 从发送到收到服务器确认的耗时（毫秒）
+    inputLatency: number; // 从发送到收到生效帧的耗时（毫秒）
+}
+
+/**
+ * 已发送的输入
+ */
+interface SentInput {
+    input: PlayerInput;
+    sentAt: number;
 }
 
 /**
@@ -37,15 +81,36 @@ export enum InputType {
 @ccclass('FrameSyncManager')
 export class FrameSyncManager extends Component {
     private static _instance: FrameSyncManager = null;
+    private static readonly MAX_EXTRAPOLATION = 1000; // 根据最新帧推算服务器帧的最长时间（毫秒）
     
-    @property
-    private frameRate: number = 30; // 帧率
+    private frameRate: number = 30; // 帧率，由服务器下发的对局配置决定
     
     @property
     private bufferFrames: number = 3; // 缓冲帧数
     
     @property
-    private jitterBufferFrames: number = 1; // 抖动缓冲帧数
+    private jitterBufferFrames: number = 1; // 抖动缓冲帧数（自适应时为最小值）
+
+    @property
+    private adaptiveJitterBuffer: boolean = true; // 是否根据帧到达抖动自动调整缓冲深度
+
+    @property
+    private maxJitterBufferFrames: number = 8; // 自适应抖动缓冲的最大帧数
+
+    @property
+    private predictionEnabled: boolean = false; // 是否启用本地预测与回滚
+
+    @property
+    private maxRollbackFrames: number = 8; // 最大预测（可回滚）帧数
+
+    @property
+    private catchUpFramesPerTick: number = 10; // 追帧时每个逻辑间隔最多执行的帧数
+
+    @property
+    private resendRequestInterval: number = 200; // 帧数据出现缺口时，两次重发请求的最小间隔（毫秒）
+
+    @property
+    private inputRedundancy: number = 3; // 每次发送输入时附带的最近未确认输入数（含本次）
     
     private _isRunning: boolean = false;
     private _currentFrame: number = 0;
@@ -55,10 +120,64 @@ export class FrameSyncManager extends Component {
     private _networkManager: NetworkManager = null;
     private _frameInterval: number = 0;
     private _lastFrameTime: number = 0;
-    private _frameCallbacks: Function[] = [];
+    private _frameCallbacks: FrameCallbackEntry[] = [];
+    private _frameCallbackOrder: number = 0;
+    private _frameRateListeners: FrameRateListener[] = [];
     private _isSynchronized: boolean = false; // 是否已同步
     private _frameTimer: any = null; // 定时器
 
+    // --- 自适应抖动缓冲 ---
+    private _jitterBuffer: JitterBuffer = null;
+    private _playbackAccumulator: number = 0; // 累积的待执行帧数（小数部分用于平滑变速）
+    private _playbackRate: number = 1;
+    private _isRebuffering: boolean = false; // 缓冲耗尽后等待重建
+    private _stallCount: number = 0;
+    private _fastForwardCount: number = 0;
+    private _catchUpCount: number = 0;
+    private _resendRequestCount: number = 0;
+
+    // --- 预测回滚 ---
+    private _snapshotProvider: IStateSnapshotProvider = null;
+    private _confirmedFrame: number = 0; // 此帧之前的所有帧都已使用服务器数据执行
+    private _snapshots: Map<number, any> = new Map(); // 执行某帧之前的状态快照
+    private _predictedInputs: Map<number, PlayerInput[]> = new Map(); // 预测帧使用的输入
+    private _lastKnownInputs: Map<string, PlayerInput> = new Map(); // 每个玩家最后确认的输入
+    private _rollbackCount: number = 0;
+
+    // --- 录像 ---
+    private _recorder: ReplayRecorder = new ReplayRecorder();
+    private _isPlayback: boolean = false; // 是否处于录像回放模式
+    private _playbackFrames: FrameData[] = [];
+    private _playbackIndex: number = 0;
+    private _playbackSpeed: number = 1; // 每个逻辑间隔执行的帧数
+    private _playbackEndCallback: () => void = null;
+
+    // --- 断线重连 / 中途加入追帧 ---
+    private _isCatchingUp: boolean = false;
+
+    // --- 观战 ---
+    private _isSpectating: boolean = false; // 观战时不发送输入
+    private _streamDelayFrames: number = 0; // 服务器下发的帧相对实时延迟的帧数
+
+    // --- 全局暂停 ---
+    private _pauseFrame: number = -1; // 房间暂停的帧，执行到此帧前停下，-1 表示未暂停
+
+    // --- 帧确认与重发 ---
+    private _receivedFrame: number = -1; // 已连续收到的最高帧
+    private _latestServerFrame: number = -1; // 收到的最新服务器帧
+    private _latestServerFrameTime: number = 0; // 最新服务器帧的生成时间（服务器时钟）
+    private _lastResendRequestTime: number = 0;
+
+    // --- 输入序号与确认 ---
+    private _inputSequence: number = 0; // 最近发送的输入序号，整个会话内单调递增
+    private _unackedInputs: SentInput[] = []; // 已发送但尚未确认的输入（按序号升序）
+    private _landedInputs: Map<number, SentInput> = new Map(); // 生效帧 -> 已确认但生效帧尚未收到的输入
+    private _ackedSequence: number = 0;
+    private _authoritativeSequence: number = 0;
+    private _landedFrame: number = -1;
+    private _ackLatency: number = 0;
+    private _inputLatency: number = 0;
+
     public static get instance(): FrameSyncManager {
         if (!FrameSyncManager._instance) {
             const node = new Node('FrameSyncManager');
@@ -85,10 +204,16 @@ export class FrameSyncManager extends Component {
     private init(): void {
         this._networkManager = NetworkManager.instance;
         this._frameInterval = 1000 / this.frameRate;
+        this._jitterBuffer = new JitterBuffer(
+            this._frameInterval,
+            this.jitterBufferFrames,
+            this.adaptiveJitterBuffer ? this.maxJitterBufferFrames : this.jitterBufferFrames
+        );
         
         // 注册网络消息处理器
         this._networkManager.registerMessageHandler(MessageType.FRAME_DATA, this.onFrameData.bind(this));
         this._networkManager.registerMessageHandler(MessageType.GAME_START, this.onGameStart.bind(this));
+        this._networkManager.registerMessageHandler(MessageType.INPUT_ACK, this.onInputAck.bind(this));
     }
 
     /**
@@ -104,6 +229,7 @@ export class FrameSyncManager extends Component {
         // 只在没有帧数据时重置当前帧，否则保持现有帧计数器
         if (this._frameBuffer.size === 0) {
             this._currentFrame = 0;
+            this._confirmedFrame = 0;
         }
         this._lastFrameTime = Date.now();
         
@@ -115,11 +241,14 @@ export class FrameSyncManager extends Component {
      * 停止帧同步
      */
     public stopFrameSync(): void {
+        // 未运行时也清空残留的帧，之后进入的房间或对局从头接收
+        this.resetFrameState();
         if (!this._isRunning) {
             return;
         }
         this._isRunning = false;
         this._isSynchronized = false;
+        this._isCatchingUp = false;
         if (this._frameTimer) {
             clearInterval(this._frameTimer);
             this._frameTimer = null;
@@ -127,6 +256,22 @@ export class FrameSyncManager extends Component {
         console.log('帧同步停止');
     }
 
+    /**
+     * 清空帧缓冲并重置帧计数
+     * 上一局（或上一个房间）的帧与本局帧号相同，残留在缓冲中会被当作本局的帧执行，并使本局的帧被当作重复帧丢弃
+     */
+    private resetFrameState(): void {
+        this._frameBuffer.clear();
+        this._currentFrame = 0;
+        this._confirmedFrame = 0;
+        this._receivedFrame = -1;
+        this._latestServerFrame = -1;
+        this._latestServerFrameTime = 0;
+        this._lastResendRequestTime = 0;
+        this._playbackAccumulator = 0;
+        this._isRebuffering = false;
+    }
+
     /**
      * 调度帧更新
      */
@@ -142,27 +287,54 @@ export class FrameSyncManager extends Component {
      * 帧更新
      */
     private frameUpdate(): void {
+        if (this._isPlayback) {
+            this.playbackFrameUpdate();
+            return;
+        }
         if (!this._isRunning || !this._isSynchronized) {
             return;
         }
+        if (this._isCatchingUp) {
+            this.catchUpFrameUpdate();
+            return;
+        }
+        if (this._pauseFrame >= 0) {
+            this.pausedFrameUpdate();
+            return;
+        }
+        if (this.predictionEnabled && this._snapshotProvider) {
+            this.predictionFrameUpdate();
+            return;
+        }
         // 动态调整播放速度以匹配服务器帧率
         const consecutiveFrames = this.getConsecutiveFramesCount();
-        let framesToRun = 0;
-        Logger.debug('FrameSyncManager', 'frameUpdate',this._currentFrame,"leftFrameCount",consecutiveFrames)
-        // 核心逻辑修改：引入真正的抖动缓冲
-        // 只有当缓冲区的帧数大于我们设定的安全缓冲时，才进行播放
-        if (consecutiveFrames > this.jitterBufferFrames + 2) { 
-            // 缓冲帧过多，我们落后于服务器，快进
-            framesToRun = 2;
-            Logger.debug('FrameSyncManager', `缓冲高 (${consecutiveFrames}), 执行2帧`)
-        } else if (consecutiveFrames > this.jitterBufferFrames) { 
-            // 缓冲正常（高于安全线），正常播放
-            framesToRun = 1;
-        } else {
-            // 缓冲已低于或等于安全线，等待服务器数据，以重建缓冲
+        const targetDepth = this._jitterBuffer.targetDepth;
+        Logger.debug('FrameSyncManager', 'frameUpdate',this._currentFrame,"leftFrameCount",consecutiveFrames,"targetDepth",targetDepth)
+
+        // 缓冲耗尽后，等待缓冲重建到目标深度再继续播放
+        if (consecutiveFrames === 0 || (this._isRebuffering && consecutiveFrames <= targetDepth)) {
+            if (!this._isRebuffering) {
+                this._isRebuffering = true;
+                this._stallCount++;
+            }
+            this._playbackAccumulator = 0;
             Logger.debug('FrameSyncManager', `缓冲低 (${consecutiveFrames}), 等待帧 ${this._currentFrame}...`)
             return;
         }
+        this._isRebuffering = false;
+
+        // 落后理想帧时逐渐加速，超前时逐渐减速；时钟尚未同步时按缓冲深度调整
+        const idealFrame = this.getIdealFrame();
+        this._playbackRate = idealFrame >= 0
+            ? this._jitterBuffer.getPlaybackRateForLag(idealFrame - this._currentFrame)
+            : this._jitterBuffer.getPlaybackRate(consecutiveFrames);
+        this._playbackAccumulator += this._playbackRate;
+        const framesToRun = Math.min(Math.floor(this._playbackAccumulator), consecutiveFrames);
+        this._playbackAccumulator -= Math.floor(this._playbackAccumulator);
+        if (framesToRun > 1) {
+            this._fastForwardCount++;
+            Logger.debug('FrameSyncManager', `缓冲高 (${consecutiveFrames}), 执行${framesToRun}帧`)
+        }
 
         // 执行确定数量的帧
         for (let i = 0; i < framesToRun; i++) {
@@ -176,6 +348,402 @@ export class FrameSyncManager extends Component {
                 break; 
             }
         }
+        this.cleanupOldFrames();
+    }
+
+    /**
+     * 预测模式下的帧更新：服务器数据未到达时使用最后已知输入向前模拟
+     */
+    private predictionFrameUpdate(): void {
+        // 先用新到达的服务器帧校验之前的预测，必要时回滚重算
+        this.reconcilePredictedFrames();
+        if (!this._isRunning) {
+            return;
+        }
+
+        // 落后服务器太多时追帧，超前太多时等待
+        const idealFrame = this.getIdealFrame();
+        let framesToRun = 1;
+        if (idealFrame >= 0) {
+            const lag = idealFrame - this._currentFrame;
+            framesToRun = lag > 2 ? 2 : (lag < -2 ? 0 : 1);
+        } else if (this.getConsecutiveFramesCount() > this._jitterBuffer.targetDepth + 2) {
+            framesToRun = 2;
+        }
+        if (framesToRun > 1) {
+            this._fastForwardCount++;
+        }
+
+        for (let i = 0; i < framesToRun && this._isRunning; i++) {
+            if (this._currentFrame === this._confirmedFrame && this.hasFrameData(this._currentFrame)) {
+                this.simulateFrame(this._currentFrame);
+            } else if (this._currentFrame - this._confirmedFrame < this.maxRollbackFrames) {
+                this.simulateFrame(this._currentFrame);
+            } else {
+                // 已达到最大预测窗口，等待服务器数据
+                Logger.debug('FrameSyncManager', `预测窗口已满 (${this.maxRollbackFrames}), 等待帧 ${this._confirmedFrame}...`);
+                break;
+            }
+        }
+    }
+
+    /**
+     * 使用服务器确认的帧数据校验预测结果，预测错误时回滚到最后确认帧并重新模拟
+     */
+    private reconcilePredictedFrames(): void {
+        let rollbackFrame = -1;
+        while (this._confirmedFrame < this._currentFrame && this.hasFrameData(this._confirmedFrame)) {
+            const frameId = this._confirmedFrame;
+            const confirmed = this.getFrameData(frameId);
+            if (rollbackFrame < 0 && !this.isSameInputs(confirmed.inputs, this._predictedInputs.get(frameId), this._lastKnownInputs)) {
+                rollbackFrame = frameId;
+            }
+            this.updateLastKnownInputs(confirmed);
+            this._predictedInputs.delete(frameId);
+            this._confirmedFrame++;
+        }
+
+        if (rollbackFrame >= 0) {
+            const snapshot = this._snapshots.get(rollbackFrame);
+            if (snapshot === undefined) {
+                console.error(`[FrameSync] 回滚失败: 缺少帧 ${rollbackFrame} 的状态快照`);
+            } else {
+                const targetFrame = this._currentFrame;
+                Logger.debug('FrameSyncManager', `预测错误，回滚到帧 ${rollbackFrame} 并重算至帧 ${targetFrame}`);
+                this._rollbackCount++;
+                this._snapshotProvider.restoreState(snapshot);
+                this._currentFrame = rollbackFrame;
+                while (this._currentFrame < targetFrame && this._isRunning) {
+                    this.simulateFrame(this._currentFrame);
+                }
+            }
+        }
+
+        // 只需保留最后确认帧及之后的快照
+        for (const frameId of this._snapshots.keys()) {
+            if (frameId < this._confirmedFrame) {
+                this._snapshots.delete(frameId);
+            }
+        }
+    }
+
+    /**
+     * 保存快照并执行一帧，服务器数据已确认的帧使用服务器数据，否则使用预测数据
+     */
+    private simulateFrame(frameId: number): void {
+        this._snapshots.set(frameId, this._snapshotProvider.saveState());
+
+        let frameData: FrameData;
+        if (frameId < this._confirmedFrame) {
+            // 回滚重算时的已确认帧
+            frameData = this.getFrameData(frameId);
+        } else if (frameId === this._confirmedFrame && this.hasFrameData(frameId)) {
+            frameData = this.getFrameData(frameId);
+            this.updateLastKnownInputs(frameData);
+            this._confirmedFrame++;
+        } else {
+            frameData = this.createPredictedFrame(frameId);
+            this._predictedInputs.set(frameId, frameData.inputs);
+        }
+
+        this.executeFrame(frameData);
+        this._currentFrame = frameId + 1;
+    }
+
+    /**
+     * 使用每个玩家最后已知的输入构造预测帧
+     */
+    private createPredictedFrame(frameId: number): FrameData {
+        const inputs: PlayerInput[] = [];
+        this._lastKnownInputs.forEach(input => {
+            // 只有移动输入需要重复，停止输入之后不再有新输入，等价于空输入
+            if (input.inputType === InputType.MOVE) {
+                inputs.push(input);
+            }
+        });
+        return {
+            frameId: frameId,
+            inputs: inputs,
+            timestamp: Date.now(),
+            predicted: true
+        };
+    }
+
+    /**
+     * 记录服务器帧中每个玩家最新的移动或停止输入
+     */
+    private updateLastKnownInputs(frameData: FrameData): void {
+        frameData.inputs.forEach(input => {
+            if (this.isSustainedInput(input)) {
+                this._lastKnownInputs.set(input.playerId, input);
+            }
+        });
+    }
+
+    /**
+     * 比较服务器输入与预测输入是否会产生相同的模拟结果（忽略时间戳）
+     * 移动和停止输入的效果会一直保持到下一次输入，因此按每个玩家执行这一帧后的移动状态比较：
+     * 服务器帧中没有某玩家的输入，与预测中重复该玩家相同的移动输入等价；其他输入（如中途加入）必须完全一致
+     * @param previous 每个玩家在这一帧之前最后确认的输入
+     */
+    private isSameInputs(confirmed: PlayerInput[], predicted: PlayerInput[] = [], previous: Map<string, PlayerInput>): boolean {
+        const confirmedEvents = confirmed.filter(input => !this.isSustainedInput(input));
+        const predictedEvents = predicted.filter(input => !this.isSustainedInput(input));
+        if (confirmedEvents.length !== predictedEvents.length) {
+            return false;
+        }
+        const sameEvents = confirmedEvents.every(input => predictedEvents.some(other =>
+            other.playerId === input.playerId
+            && other.inputType === input.inputType
+            && JSON.stringify(other.inputData) === JSON.stringify(input.inputData)));
+        if (!sameEvents) {
+            return false;
+        }
+
+        const playerIds = new Set<string>(previous.keys());
+        confirmed.concat(predicted).forEach(input => playerIds.add(input.playerId));
+        return Array.from(playerIds).every(playerId =>
+            this.getMoveState(playerId, confirmed, previous) === this.getMoveState(playerId, predicted, previous));
+    }
+
+    /**
+     * 效果会持续到下一次输入的输入（移动、停止）
+     */
+    private isSustainedInput(input: PlayerInput): boolean {
+        return input.inputType === InputType.MOVE || input.inputType === InputType.STOP;
+    }
+
+    /**
+     * 玩家执行这一帧输入后的移动状态：最后一次移动输入的数据，停止或没有移动过时为停止
+     */
+    private getMoveState(playerId: string, inputs: PlayerInput[], previous: Map<string, PlayerInput>): string {
+        const frameInputs = inputs.filter(input => input.playerId === playerId && this.isSustainedInput(input));
+        const input = frameInputs.length > 0 ? frameInputs[frameInputs.length - 1] : previous.get(playerId);
+        return input && input.inputType === InputType.MOVE ? JSON.stringify(input.inputData) : InputType.STOP;
+    }
+
+    /**
+     * 重置预测回滚状态
+     */
+    private resetPrediction(): void {
+        this._snapshots.clear();
+        this._predictedInputs.clear();
+        this._lastKnownInputs.clear();
+        this._rollbackCount = 0;
+    }
+
+    /**
+     * 追帧模式下的帧更新：快速执行缓冲的历史帧，直到追上服务器
+     */
+    private catchUpFrameUpdate(): void {
+        for (let i = 0; i < this.catchUpFramesPerTick && this._isRunning; i++) {
+            if (this.getConsecutiveFramesCount() <= this.bufferFrames) {
+                this._isCatchingUp = false;
+                Logger.log('FrameSyncManager', `追帧完成，当前帧 ${this._currentFrame}`);
+                return;
+            }
+            if (this.predictionEnabled && this._snapshotProvider) {
+                this.simulateFrame(this._currentFrame);
+            } else {
+                this.executeFrame(this.getFrameData(this._currentFrame));
+                this._currentFrame++;
+            }
+        }
+        this.cleanupOldFrames();
+    }
+
+    /**
+     * 房间暂停后的帧更新：不再等待缓冲，也不再预测，只执行暂停帧之前剩余的服务器帧
+     */
+    private pausedFrameUpdate(): void {
+        if (this.predictionEnabled && this._snapshotProvider) {
+            // 暂停前已预测的帧仍需用服务器数据校验
+            this.reconcilePredictedFrames();
+            if (this._currentFrame < this._pauseFrame && this._currentFrame === this._confirmedFrame && this.hasFrameData(this._currentFrame)) {
+                this.simulateFrame(this._currentFrame);
+            }
+        } else if (this._currentFrame < this._pauseFrame && this.hasFrameData(this._currentFrame)) {
+            this.executeFrame(this.getFrameData(this._currentFrame));
+            this._currentFrame++;
+        }
+    }
+
+    /**
+     * 房间在指定帧暂停：执行完该帧之前的帧后停下，不再预测
+     */
+    public pauseAtFrame(frameId: number): void {
+        this._pauseFrame = frameId;
+        this._playbackAccumulator = 0;
+        Logger.log('FrameSyncManager', `房间在帧 ${frameId} 暂停, 当前帧 ${this._currentFrame}`);
+    }
+
+    /**
+     * 房间恢复运行
+     */
+    public resumeFromPause(): void {
+        if (this._pauseFrame < 0) {
+            return;
+        }
+        Logger.log('FrameSyncManager', `房间从帧 ${this._pauseFrame} 恢复, 当前帧 ${this._currentFrame}`);
+        this._pauseFrame = -1;
+        // 暂停期间没有帧到达，重新统计抖动并重建缓冲
+        this._jitterBuffer.reset();
+        this._playbackAccumulator = 0;
+        this._isRebuffering = false;
+    }
+
+    /**
+     * 房间是否已暂停
+     */
+    public get isPaused(): boolean {
+        return this._pauseFrame >= 0;
+    }
+
+    /**
+     * 获取房间暂停的帧，未暂停时为 -1
+     */
+    public get pauseFrame(): number {
+        return this._pauseFrame;
+    }
+
+    /**
+     * 从状态快照所在帧开始追帧（断线重连或中途加入）
+     * 调用前状态快照必须已经恢复，frames 为快照帧及之后的历史帧
+     */
+    public startCatchUp(frameId: number, frames: FrameData[]): void {
+        this.stopPlayback();
+        // 缓冲中的帧可能来自上一局或上一个房间，全部丢弃，只保留快照附带的帧
+        this._frameBuffer.clear();
+        frames.forEach(frameData => {
+            if (frameData.frameId >= frameId) {
+                this._frameBuffer.set(frameData.frameId, frameData);
+            }
+        });
+        this.resetPrediction();
+
+        this._currentFrame = frameId;
+        this._confirmedFrame = frameId;
+        this._isSynchronized = true;
+        this._isCatchingUp = true;
+        this._catchUpCount++;
+        this._receivedFrame = frameId - 1;
+        this.acknowledgeFrames();
+        Logger.log('FrameSyncManager', `从帧 ${frameId} 开始追帧, 待执行 ${this.getConsecutiveFramesCount()} 帧`);
+
+        if (!this._isRunning) {
+            this._isRunning = true;
+            this._lastFrameTime = Date.now();
+            this.scheduleFrameUpdate();
+        }
+    }
+
+    /**
+     * 获取最后确认帧的状态快照（提供给断线重连或中途加入的玩家）
+     * 返回的 frameId 为快照之后要执行的第一帧
+     */
+    public getConfirmedSnapshot(): { frameId: number, state: any } | null {
+        if (!this._snapshotProvider) {
+            return null;
+        }
+        if (this.predictionEnabled && this._currentFrame > this._confirmedFrame) {
+            const state = this._snapshots.get(this._confirmedFrame);
+            return state === undefined ? null : { frameId: this._confirmedFrame, state: state };
+        }
+        return { frameId: this._currentFrame, state: this._snapshotProvider.saveState() };
+    }
+
+    /**
+     * 是否正在追帧
+     */
+    public get isCatchingUp(): boolean {
+        return this._isCatchingUp;
+    }
+
+    /**
+     * 回放模式下的帧更新：按录像顺序执行帧，不依赖服务器
+     */
+    private playbackFrameUpdate(): void {
+        for (let i = 0; i < this._playbackSpeed && this._isRunning; i++) {
+            if (this._playbackIndex >= this._playbackFrames.length) {
+                Logger.log('FrameSyncManager', `录像回放结束, 共 ${this._playbackFrames.length} 帧`);
+                const callback = this._playbackEndCallback;
+                this.stopPlayback();
+                if (callback) {
+                    callback();
+                }
+                return;
+            }
+            const frameData = this._playbackFrames[this._playbackIndex++];
+            this._currentFrame = frameData.frameId;
+            this.executeFrame(frameData);
+            this._currentFrame++;
+        }
+    }
+
+    /**
+     * 开始回放录像，回放期间忽略服务器帧数据和本地输入
+     */
+    public startPlayback(replay: ReplayData, onEnd: () => void = null): void {
+        this.stopFrameSync();
+        this._recorder.finish();
+
+        this._isPlayback = true;
+        this._playbackFrames = replay.frames;
+        this._playbackIndex = 0;
+        this._playbackEndCallback = onEnd;
+        this._frameBuffer.clear();
+        this.resetPrediction();
+
+        if (replay.matchConfig && replay.matchConfig.frameRate) {
+            this.setFrameRate(replay.matchConfig.frameRate);
+        }
+
+        this._isRunning = true;
+        this._currentFrame = replay.frames.length > 0 ? replay.frames[0].frameId : 0;
+        Logger.log('FrameSyncManager', `开始回放录像, 房间 ${replay.roomId}, 共 ${replay.frames.length} 帧`);
+        this.scheduleFrameUpdate();
+    }
+
+    /**
+     * 停止回放
+     */
+    public stopPlayback(): void {
+        if (!this._isPlayback) {
+            return;
+        }
+        this.stopFrameSync();
+        this._isPlayback = false;
+        this._playbackFrames = [];
+        this._playbackIndex = 0;
+        this._playbackEndCallback = null;
+    }
+
+    /**
+     * 设置回放速度（每个逻辑间隔执行的帧数）
+     */
+    public setPlaybackSpeed(speed: number): void {
+        this._playbackSpeed = Math.max(1, Math.floor(speed));
+    }
+
+    /**
+     * 是否处于回放模式
+     */
+    public get isPlayback(): boolean {
+        return this._isPlayback;
+    }
+
+    /**
+     * 开始录制服务器帧数据
+     */
+    public startRecording(header: ReplayHeader): void {
+        this._recorder.begin(header);
+    }
+
+    /**
+     * 停止录制并返回录像，未在录制时返回 null
+     */
+    public stopRecording(): ReplayData {
+        return this._recorder.finish();
     }
 
     /**
@@ -183,9 +751,9 @@ export class FrameSyncManager extends Component {
      */
     private executeFrame(frameData: FrameData): void {
         const fixedDeltaTime = this._frameInterval / 1000;
-        // 通知所有注册的回调函数
-        this._frameCallbacks.forEach(callback => {
-            callback(frameData, fixedDeltaTime);
+        // 按优先级通知所有注册的回调函数
+        this._frameCallbacks.forEach(entry => {
+            entry.callback(frameData, fixedDeltaTime);
         });
     }
 
@@ -193,16 +761,108 @@ export class FrameSyncManager extends Component {
      * 添加输入到缓冲区
      */
     public addInput(input: PlayerInput): void {
-        // 客户端不再管理输入缓冲或目标帧，直接将输入发送到服务器
-        this._networkManager.sendInput(input);
+        if (this._isPlayback || this._isSpectating) {
+            return;
+        }
+        // 客户端不再管理输入缓冲或目标帧，由服务器决定生效帧
+        // 每条输入带序号，并重复附带最近几条未确认的输入，单条消息丢失时服务器仍能收到
+        input.sequence = ++this._inputSequence;
+        this._unackedInputs.push({ input: input, sentAt: Date.now() });
+        const maxPending = Math.max(this.inputRedundancy, 30);
+        if (this._unackedInputs.length > maxPending) {
+            this._unackedInputs.splice(0, this._unackedInputs.length - maxPending);
+        }
+        this._networkManager.sendInputs(this._unackedInputs.slice(-this.inputRedundancy).map(sent => sent.input));
+    }
+
+    /**
+     * 服务器确认输入序号及其生效帧
+     */
+    private onInputAck(message: NetworkMessage): void {
+        const acks: InputAck[] = message.data.acks;
+        const now = Date.now();
+        acks.forEach(ack => {
+            const sent = this._unackedInputs.find(item => item.input.sequence === ack.sequence);
+            if (sent) {
+                this._ackLatency = now - sent.sentAt;
+                this._landedInputs.set(ack.frameId, sent);
+            }
+            if (ack.sequence > this._ackedSequence) {
+                this._ackedSequence = ack.sequence;
+                this._landedFrame = ack.frameId;
+            }
+        });
+
+        // 服务器按序号递增接收，已确认序号之前未确认的输入不会再被采用
+        this._unackedInputs = this._unackedInputs.filter(item => item.input.sequence > this._ackedSequence);
+        this.updateAuthoritativeInputs();
+    }
+
+    /**
+     * 生效帧已收到的输入成为权威数据，记录从发送到生效的延迟
+     */
+    private updateAuthoritativeInputs(): void {
+        if (this._landedInputs.size === 0) {
+            return;
+        }
+        const now = Date.now();
+        for (const [frameId, sent] of this._landedInputs) {
+            if (frameId > this._receivedFrame) {
+                continue;
+            }
+            this._landedInputs.delete(frameId);
+            if (sent.input.sequence > this._authoritativeSequence) {
+                this._authoritativeSequence = sent.input.sequence;
+                this._inputLatency = now - sent.sentAt;
+            }
+        }
+    }
+
+    /**
+     * 指定序号的输入是否已成为权威数据（服务器已确认且生效帧已收到）
+     */
+    public isInputAuthoritative(sequence: number): boolean {
+        return sequence <= this._authoritativeSequence;
+    }
+
+    /**
+     * 获取输入发送统计信息
+     */
+    public getInputStats(): InputStats {
+        return {
+            sequence: this._inputSequence,
+            ackedSequence: this._ackedSequence,
+            authoritativeSequence: this._authoritativeSequence,
+            landedFrame: this._landedFrame,
+            pendingCount: this._unackedInputs.length,
+            ackLatency: this._ackLatency,
+            inputLatency: this._inputLatency
+        };
     }
 
     /**
      * 处理服务器帧数据
      */
     private onFrameData(message: NetworkMessage): void {
-        const frameData: FrameData = message.data;
-        this._frameBuffer.set(frameData.frameId, frameData);
+        if (this._isPlayback) {
+            return;
+        }
+        const frameMessage: FrameDataMessage = message.data;
+        frameMessage.frames.forEach(frameData => {
+            // 冗余帧：已收到或已执行过的帧直接忽略
+            if (this._frameBuffer.has(frameData.frameId) || frameData.frameId <= this._receivedFrame) {
+                return;
+            }
+            if (frameData.frameId >= this._currentFrame) {
+                this._jitterBuffer.onFrameArrival(Date.now());
+            }
+            this._frameBuffer.set(frameData.frameId, frameData);
+            this._recorder.recordFrame(frameData);
+            if (frameData.frameId > this._latestServerFrame) {
+                this._latestServerFrame = frameData.frameId;
+                this._latestServerFrameTime = frameData.timestamp;
+            }
+        });
 
         // 如果尚未同步，则检查是否已达到启动播放所需的缓冲帧数
         if (!this._isSynchronized) {
@@ -216,25 +876,64 @@ export class FrameSyncManager extends Component {
             }
 
             // 如果连续帧数达到或超过了设定的缓冲帧数，则开始同步
-            if (consecutiveFrames >= this.bufferFrames) {
+            // 预测模式下不需要预先缓冲，收到第一帧即可开始
+            const requiredFrames = this.predictionEnabled ? 1 : this.bufferFrames;
+            if (consecutiveFrames >= requiredFrames) {
                 this._currentFrame = minFrameId;
+                this._confirmedFrame = minFrameId;
                 this._isSynchronized = true;
                 console.log(`缓冲完成: 客户端从帧 ${this._currentFrame} 开始同步`);
             }
         }
         
+        this.acknowledgeFrames();
+        this.updateAuthoritativeInputs();
+
         // 清理旧的帧数据
         this.cleanupOldFrames();
     }
 
+    /**
+     * 确认已连续收到的帧，发现缺口时请求服务器重发
+     */
+    private acknowledgeFrames(): void {
+        const previousFrame = this._receivedFrame;
+        while (this._frameBuffer.has(this._receivedFrame + 1)) {
+            this._receivedFrame++;
+        }
+        if (this._receivedFrame > previousFrame) {
+            this._networkManager.sendFrameAck(this._receivedFrame);
+        }
+
+        // 后面的帧已到达但中间缺帧（超出了服务器附带的冗余帧范围）
+        const newestFrame = Math.max(...this._frameBuffer.keys());
+        const now = Date.now();
+        if (newestFrame > this._receivedFrame + 1 && now - this._lastResendRequestTime >= this.resendRequestInterval) {
+            this._lastResendRequestTime = now;
+            this._resendRequestCount++;
+            Logger.warn('FrameSyncManager', `帧数据缺失, 请求重发帧 ${this._receivedFrame + 1}-${newestFrame - 1}`);
+            this._networkManager.requestResendFrames(this._receivedFrame + 1, newestFrame - 1);
+        }
+    }
+
     /**
      * 处理游戏开始
      */
     private onGameStart(message: NetworkMessage): void {       
-        // 重置同步状态，等待服务器帧数据同步
+        if (this._isPlayback) {
+            return;
+        }
+        // 重置同步状态，清空上一局的帧，等待服务器帧数据同步
         this._isSynchronized = false;
+        this._isCatchingUp = false;
+        this._pauseFrame = -1;
+        this.resetFrameState();
+        this._unackedInputs = [];
+        this._landedInputs.clear();
+        this.resetPrediction();
+        this.resetBufferStats();
         
-        // 开始帧同步，但不重置帧计数器
+        // 开始帧同步
         if (!this._isRunning) {
             this._isRunning = true;
             this._lastFrameTime = Date.now();
@@ -242,6 +941,55 @@ export class FrameSyncManager extends Component {
         }
     }
 
+    /**
+     * 进入或退出观战：观战时不发送输入，帧流相对实时延迟 delayFrames 帧
+     */
+    public setSpectating(spectating: boolean, delayFrames: number = 0): void {
+        this._isSpectating = spectating;
+        this._streamDelayFrames = spectating ? Math.max(delayFrames, 0) : 0;
+        this._unackedInputs = [];
+        this._landedInputs.clear();
+    }
+
+    /**
+     * 是否正在观战
+     */
+    public get isSpectating(): boolean {
+        return this._isSpectating;
+    }
+
+    /**
+     * 根据时钟同步推算服务器当前正在生成的帧（可为小数，观战时为延迟后的帧），无法推算时返回 -1
+     */
+    public getEstimatedServerFrame(): number {
+        if (!this._networkManager.isClockSynced || this._latestServerFrame < 0) {
+            return -1;
+        }
+        // 观战者收到的帧整体延迟，按延迟后的时间推算
+        const elapsed = this._networkManager.serverTime - this._latestServerFrameTime - this._streamDelayFrames * this._frameInterval;
+        // 长时间没有新帧（暂停或断线）时无法推算
+        if (elapsed > FrameSyncManager.MAX_EXTRAPOLATION) {
+            return -1;
+        }
+        return this._latestServerFrame + Math.max(elapsed, 0) / this._frameInterval;
+    }
+
+    /**
+     * 推算理想的本地帧，无法推算时返回 -1
+     * 预测模式下与服务器当前帧一致；否则为此刻应已到达的帧减去目标缓冲深度
+     */
+    public getIdealFrame(): number {
+        const serverFrame = this.getEstimatedServerFrame();
+        if (serverFrame < 0) {
+            return -1;
+        }
+        if (this.predictionEnabled) {
+            return serverFrame;
+        }
+        const transitFrames = Math.max(this._networkManager.rtt, 0) / 2 / this._frameInterval;
+        return Math.max(serverFrame - transitFrames - this._jitterBuffer.targetDepth, 0);
+    }
+
     /**
      * 检查是否有帧数据
      */
@@ -273,7 +1021,10 @@ export class FrameSyncManager extends Component {
      * 清理旧的帧数据
      */
     private cleanupOldFrames(): void {
-        const minFrame = this._currentFrame - 10; // 保留最近10帧
+        // 保留最近10帧；预测模式下还需保留最后确认帧之后的帧用于回滚重算
+        // 不预测时最后确认帧不会前进，只按当前帧计算
+        const oldestFrame = this.predictionEnabled ? Math.min(this._currentFrame, this._confirmedFrame) : this._currentFrame;
+        const minFrame = oldestFrame - 10;
         
         for (const [frameId] of this._frameBuffer) {
             if (frameId < minFrame) {
@@ -288,23 +1039,95 @@ export class FrameSyncManager extends Component {
         // }
     }
 
+    /**
+     * 测试帧缓冲不会随对局增长：不预测时连续接收并执行 frameCount 帧，已执行的帧只保留最近10帧
+     * 测试会清空帧同步状态，只能在没有进行对局时调用
+     * @returns 是否通过
+     */
+    public testFrameBufferCleanup(frameCount: number = 300): boolean {
+        console.log('=== 帧缓冲清理测试 ===');
+        if (this._isRunning || this._isPlayback) {
+            console.warn('帧同步运行中，无法测试帧缓冲');
+            return false;
+        }
+        const callbacks = this._frameCallbacks;
+        const prediction = this.predictionEnabled;
+        this._frameCallbacks = []; // 不驱动游戏逻辑
+        this.predictionEnabled = false;
+        this.resetFrameState();
+        this._isRunning = true;
+        this._isSynchronized = true;
+
+        let failures = 0;
+        let maxSize = 0;
+        try {
+            for (let frameId = 0; frameId < frameCount; frameId++) {
+                // 每个逻辑间隔到达一帧（直接放入缓冲，不经过网络，不发送确认）
+                this._frameBuffer.set(frameId, { frameId: frameId, inputs: [], timestamp: Date.now() });
+                this.frameUpdate();
+                maxSize = Math.max(maxSize, this._frameBuffer.size);
+                const staleFrames = Array.from(this._frameBuffer.keys()).filter(id => id < this._currentFrame - 10);
+                if (staleFrames.length > 0) {
+                    failures++;
+                    console.error(`执行到帧 ${this._currentFrame} 时仍缓存 ${staleFrames.length} 个旧帧`);
+                    break;
+                }
+            }
+            if (this._currentFrame < frameCount / 2) {
+                failures++;
+                console.error(`收到 ${frameCount} 帧, 只执行到帧 ${this._currentFrame}`);
+            }
+            console.log(`执行 ${this._currentFrame} 帧, 帧缓冲最多 ${maxSize} 帧`);
+        } finally {
+            this._isRunning = false;
+            this._isSynchronized = false;
+            this.resetFrameState();
+            this.resetBufferStats();
+            this._frameCallbacks = callbacks;
+            this.predictionEnabled = prediction;
+        }
+
+        console.log(failures === 0 ? '帧缓冲清理测试通过' : '帧缓冲清理测试失败');
+        return failures === 0;
+    }
+
     /**
      * 注册帧回调
+     * 游戏逻辑应作为系统加入 GameSimulation 的阶段管线，这里只用于模拟之外的处理
+     * @param priority 从小到大执行，相同优先级按注册顺序执行
      */
-    public registerFrameCallback(callback: Function): void {
-        this._frameCallbacks.push(callback);
+    public registerFrameCallback(callback: FrameCallback, priority: number = 0): void {
+        if (this._frameCallbacks.some(entry => entry.callback === callback)) {
+            return;
+        }
+        this._frameCallbacks = this._frameCallbacks
+            .concat({ callback: callback, priority: priority, order: this._frameCallbackOrder++ })
+            .sort((a, b) => a.priority - b.priority || a.order - b.order);
     }
 
     /**
      * 取消注册帧回调
      */
-    public unregisterFrameCallback(callback: Function): void {
-        const index = this._frameCallbacks.indexOf(callback);
-        if (index > -1) {
-            this._frameCallbacks.splice(index, 1);
+    public unregisterFrameCallback(callback: FrameCallback): void {
+        this._frameCallbacks = this._frameCallbacks.filter(entry => entry.callback !== callback);
+    }
+
+    /**
+     * 注册帧率变化回调（如输入采样需要与逻辑帧率一致）
+     */
+    public registerFrameRateListener(listener: FrameRateListener): void {
+        if (!this._frameRateListeners.includes(listener)) {
+            this._frameRateListeners.push(listener);
         }
     }
 
+    /**
+     * 取消注册帧率变化回调
+     */
+    public unregisterFrameRateListener(listener: FrameRateListener): void {
+        this._frameRateListeners = this._frameRateListeners.filter(item => item !== listener);
+    }
+
     /**
      * 获取当前帧
      */
@@ -312,6 +1135,105 @@ export class FrameSyncManager extends Component {
         return this._currentFrame;
     }
 
+    /**
+     * 获取最后确认帧（此帧之前的所有帧都已使用服务器数据执行）
+     */
+    public get confirmedFrame(): number {
+        return this.predictionEnabled ? this._confirmedFrame : this._currentFrame;
+    }
+
+    /**
+     * 获取是否启用预测回滚
+     */
+    public get isPredictionEnabled(): boolean {
+        return this.predictionEnabled;
+    }
+
+    /**
+     * 获取回滚次数
+     */
+    public get rollbackCount(): number {
+        return this._rollbackCount;
+    }
+
+    /**
+     * 设置状态快照提供者（预测回滚需要）
+     */
+    public setSnapshotProvider(provider: IStateSnapshotProvider): void {
+        this._snapshotProvider = provider;
+    }
+
+    /**
+     * 设置预测回滚参数，只能在帧同步未运行时修改
+     */
+    public setPrediction(enabled: boolean, maxRollbackFrames: number = this.maxRollbackFrames): void {
+        if (this._isRunning) {
+            console.warn('帧同步运行中，无法修改预测设置');
+            return;
+        }
+        this.predictionEnabled = enabled;
+        this.maxRollbackFrames = Math.max(1, maxRollbackFrames);
+    }
+
+    /**
+     * 获取当前目标缓冲深度（帧）
+     */
+    public get targetBufferDepth(): number {
+        return this._jitterBuffer ? this._jitterBuffer.targetDepth : this.jitterBufferFrames;
+    }
+
+    /**
+     * 获取当前缓冲深度（从当前帧开始连续可执行的帧数）
+     */
+    public get bufferDepth(): number {
+        return this.getConsecutiveFramesCount();
+    }
+
+    /**
+     * 获取帧缓冲统计信息（用于调优抖动缓冲参数）
+     */
+    public getBufferStats(): FrameBufferStats | null {
+        if (!this._jitterBuffer) {
+            return null;
+        }
+        return {
+            ...this._jitterBuffer.getStats(),
+            currentDepth: this.getConsecutiveFramesCount(),
+            playbackRate: this._playbackRate,
+            stallCount: this._stallCount,
+            fastForwardCount: this._fastForwardCount,
+            catchUpCount: this._catchUpCount,
+            resendRequestCount: this._resendRequestCount,
+            idealFrame: this.getIdealFrame()
+        };
+    }
+
+    /**
+     * 设置抖动缓冲深度范围，最小值与最大值相同时即关闭自适应
+     */
+    public setJitterBufferRange(minFrames: number, maxFrames: number): void {
+        this.jitterBufferFrames = minFrames;
+        this.maxJitterBufferFrames = Math.max(minFrames, maxFrames);
+        this.adaptiveJitterBuffer = this.maxJitterBufferFrames > minFrames;
+        if (this._jitterBuffer) {
+            this._jitterBuffer.setDepthRange(this.jitterBufferFrames, this.maxJitterBufferFrames);
+        }
+    }
+
+    /**
+     * 重置抖动缓冲统计
+     */
+    private resetBufferStats(): void {
+        this._jitterBuffer.reset();
+        this._playbackAccumulator = 0;
+        this._playbackRate = 1;
+        this._isRebuffering = false;
+        this._stallCount = 0;
+        this._fastForwardCount = 0;
+        this._catchUpCount = 0;
+        this._resendRequestCount = 0;
+    }
+
     /**
      * 获取运行状态
      */
@@ -323,12 +1245,19 @@ export class FrameSyncManager extends Component {
      * 设置帧率
      */
     public setFrameRate(rate: number): void {
+        const changed = rate !== this.frameRate;
         this.frameRate = rate;
         this._frameInterval = 1000 / this.frameRate;
+        if (this._jitterBuffer) {
+            this._jitterBuffer.setFrameInterval(this._frameInterval);
+        }
         
         if (this._isRunning) {
             this.scheduleFrameUpdate();
         }
+        if (changed) {
+            this._frameRateListeners.forEach(listener => listener(rate));
+        }
     }
     public getFrameRate(): number {
         return this.frameRate;
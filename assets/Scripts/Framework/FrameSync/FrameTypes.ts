@@ -0,0 +1,57 @@
+// 帧同步协议的数据类型
+// 不依赖引擎，客户端、无头模拟和服务器共用同一份定义
+
+/**
+ * 帧数据接口
+ */
+export interface FrameData {
+    frameId: number;
+    inputs: PlayerInput[];
+    timestamp: number;
+    predicted?: boolean; // 是否为本地预测帧（未经服务器确认）
+}
+
+/**
+ * 服务器下发的帧消息
+ * 包含最新帧以及该客户端尚未确认的最近几帧（按帧号升序），丢失单条消息时可由后续消息补齐
+ */
+export interface FrameDataMessage {
+    frames: FrameData[];
+}
+
+/**
+ * 玩家输入接口
+ */
+export interface PlayerInput {
+    playerId: string;
+    inputType: InputType;
+    inputData: any;
+    timestamp: number;
+    sequence?: number; // 客户端输入序号（单调递增），服务器据此去重并确认生效帧
+}
+
+/**
+ * 服务器对输入的确认：某个序号的输入被安排在哪一帧生效
+ */
+export interface InputAck {
+    sequence: number;
+    frameId: number;
+}
+
+/**
+ * 输入类型枚举
+ */
+export enum InputType {
+    MOVE = 'move',
+    STOP = 'stop',
+    SKILL = 'skill',
+    JOIN = 'join' // 服务器插入：玩家中途加入
+}
+
+/**
+ * 移动输入数据
+ * 方向向量的长度表示速度比例（0~1）
+ */
+export interface MoveInputData {
+    direction: { x: number, y: number };
+}
@@ -1,15 +1,9 @@
 import { _decorator, Component, Node, director, input, Input, Vec2, Vec3 } from 'cc';
-import { FrameSyncManager, PlayerInput, InputType } from './FrameSyncManager';
+import { FrameSyncManager } from './FrameSyncManager';
+import { PlayerInput, InputType, MoveInputData } from './FrameTypes';
 import { NetworkManager } from '../Network/NetworkManager';
 const { ccclass, property } = _decorator;
 
-/**
- * 移动输入数据
- */
-export interface MoveInputData {
-    direction: Vec2;
-}
-
 /**
  * 输入管理器
  */
@@ -23,6 +17,7 @@ export class InputManager extends Component {
     private _moveSpeed: number = 200; // 移动速度(已不再使用，保留用于兼容)
     // 删除_currentSpeed，不再需要
     private _isControllerActive: boolean = false;
+    private _boundOnFrameRateChanged: (frameRate: number) => void;
 
     public static get instance(): InputManager {
         if (!InputManager._instance) {
@@ -46,12 +41,25 @@ export class InputManager extends Component {
         this._frameSyncManager = FrameSyncManager.instance;
         this._networkManager = NetworkManager.instance;
         
-        // 开始输入检测循环
-        this.schedule(this.checkInput, 1/this._frameSyncManager.getFrameRate()); // 30FPS检测
+        // 开始输入检测循环，与逻辑帧率一致；对局配置改变帧率时重新安排
+        this._boundOnFrameRateChanged = this.scheduleInputCheck.bind(this);
+        this._frameSyncManager.registerFrameRateListener(this._boundOnFrameRateChanged);
+        this.scheduleInputCheck(this._frameSyncManager.getFrameRate());
     }
 
     onDestroy() {
         this.unschedule(this.checkInput);
+        if (this._frameSyncManager) {
+            this._frameSyncManager.unregisterFrameRateListener(this._boundOnFrameRateChanged);
+        }
+    }
+
+    /**
+     * 按逻辑帧率安排输入检测
+     */
+    private scheduleInputCheck(frameRate: number): void {
+        this.unschedule(this.checkInput);
+        this.schedule(this.checkInput, 1 / frameRate);
     }
 
 
@@ -99,7 +107,7 @@ export class InputManager extends Component {
      */
     private sendMoveInput(direction: Vec2): void {
         const inputData: MoveInputData = {
-            direction: direction
+            direction: { x: direction.x, y: direction.y }
             // 删除speed字段，速度应该通过direction的长度计算
         };
         
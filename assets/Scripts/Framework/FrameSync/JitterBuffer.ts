@@ -0,0 +1,168 @@
+/**
+ * 抖动缓冲统计信息
+ */
+export interface JitterStats {
+    meanInterval: number; // 平均帧到达间隔（毫秒）
+    jitter: number; // 到达间隔抖动（毫秒，RFC 3550 方式平滑）
+    peakDeviation: number; // 近期最大间隔偏差（毫秒，逐渐衰减）
+    targetDepth: number; // 当前目标缓冲深度（帧）
+    minDepth: number;
+    maxDepth: number;
+    samples: number; // 已统计的到达次数
+}
+
+/**
+ * 自适应抖动缓冲
+ * 统计服务器帧的到达间隔抖动，动态计算需要保留的缓冲帧数，并给出平滑的播放速度
+ */
+export class JitterBuffer {
+    private static readonly JITTER_GAIN = 1 / 16; // 抖动平滑系数 (RFC 3550)
+    private static readonly INTERVAL_GAIN = 1 / 32; // 平均间隔平滑系数
+    private static readonly PEAK_DECAY = 0.98; // 每次到达时峰值偏差的衰减
+    private static readonly MAX_VALID_GAP = 1000; // 超过此间隔视为暂停或断线，不计入统计
+    private static readonly RATE_STEP = 0.1; // 每偏离目标一帧调整的播放速度
+    private static readonly MIN_RATE = 0.5;
+    private static readonly MAX_RATE = 2.0;
+
+    private _frameInterval: number;
+    private _minDepth: number;
+    private _maxDepth: number;
+    private _shrinkDelay: number;
+
+    private _lastArrival: number = -1;
+    private _meanInterval: number = 0;
+    private _jitter: number = 0;
+    private _peakDeviation: number = 0;
+    private _samples: number = 0;
+    private _targetDepth: number = 0;
+    private _shrinkSince: number = -1; // 开始满足缩小条件的时间
+
+    /**
+     * @param frameInterval 逻辑帧间隔（毫秒）
+     * @param minDepth 最小缓冲帧数
+     * @param maxDepth 最大缓冲帧数
+     * @param shrinkDelay 目标深度需要持续偏大多久才缩小（毫秒）
+     */
+    constructor(frameInterval: number, minDepth: number, maxDepth: number, shrinkDelay: number = 3000) {
+        this._frameInterval = frameInterval;
+        this._minDepth = minDepth;
+        this._maxDepth = Math.max(minDepth, maxDepth);
+        this._shrinkDelay = shrinkDelay;
+        this.reset();
+    }
+
+    /**
+     * 重置统计
+     */
+    public reset(): void {
+        this._lastArrival = -1;
+        this._meanInterval = this._frameInterval;
+        this._jitter = 0;
+        this._peakDeviation = 0;
+        this._samples = 0;
+        this._targetDepth = this._minDepth;
+        this._shrinkSince = -1;
+    }
+
+    /**
+     * 修改逻辑帧间隔（帧率改变时）
+     */
+    public setFrameInterval(frameInterval: number): void {
+        this._frameInterval = frameInterval;
+        this.reset();
+    }
+
+    /**
+     * 修改缓冲深度范围
+     */
+    public setDepthRange(minDepth: number, maxDepth: number): void {
+        this._minDepth = minDepth;
+        this._maxDepth = Math.max(minDepth, maxDepth);
+        this._targetDepth = Math.min(Math.max(this._targetDepth, this._minDepth), this._maxDepth);
+    }
+
+    /**
+     * 记录一次新帧到达
+     */
+    public onFrameArrival(now: number): void {
+        if (this._lastArrival >= 0) {
+            const interval = now - this._lastArrival;
+            if (interval <= JitterBuffer.MAX_VALID_GAP) {
+                const deviation = Math.abs(interval - this._frameInterval);
+                this._meanInterval += (interval - this._meanInterval) * JitterBuffer.INTERVAL_GAIN;
+                this._jitter += (deviation - this._jitter) * JitterBuffer.JITTER_GAIN;
+                this._peakDeviation = Math.max(deviation, this._peakDeviation * JitterBuffer.PEAK_DECAY);
+                this._samples++;
+                this.updateTargetDepth(now);
+            }
+        }
+        this._lastArrival = now;
+    }
+
+    /**
+     * 根据抖动计算目标深度：增大立即生效，缩小需要持续一段时间，避免来回抖动
+     */
+    private updateTargetDepth(now: number): void {
+        const needed = Math.ceil((this._jitter * 2 + this._peakDeviation * 0.5) / this._frameInterval);
+        const depth = Math.min(Math.max(needed, this._minDepth), this._maxDepth);
+
+        if (depth > this._targetDepth) {
+            this._targetDepth = depth;
+            this._shrinkSince = -1;
+        } else if (depth < this._targetDepth) {
+            if (this._shrinkSince < 0) {
+                this._shrinkSince = now;
+            } else if (now - this._shrinkSince >= this._shrinkDelay) {
+                this._targetDepth--;
+                this._shrinkSince = now;
+            }
+        } else {
+            this._shrinkSince = -1;
+        }
+    }
+
+    /**
+     * 根据当前缓冲深度计算播放速度（每个逻辑间隔执行的帧数）
+     * 缓冲多于目标时逐渐加速，少于目标时逐渐减速
+     * @param depth 当前连续可执行的帧数
+     */
+    public getPlaybackRate(depth: number): number {
+        // 执行当前帧后剩余的缓冲与目标的差值
+        return this.rateForExcess(depth - 1 - this._targetDepth);
+    }
+
+    /**
+     * 根据本地落后理想帧的帧数计算播放速度
+     * @param lag 理想帧 - 本地当前帧，正数表示落后需要加速
+     */
+    public getPlaybackRateForLag(lag: number): number {
+        return this.rateForExcess(lag);
+    }
+
+    private rateForExcess(excess: number): number {
+        const rate = 1 + excess * JitterBuffer.RATE_STEP;
+        return Math.min(Math.max(rate, JitterBuffer.MIN_RATE), JitterBuffer.MAX_RATE);
+    }
+
+    /**
+     * 获取目标缓冲深度
+     */
+    public get targetDepth(): number {
+        return this._targetDepth;
+    }
+
+    /**
+     * 获取统计信息
+     */
+    public getStats(): JitterStats {
+        return {
+            meanInterval: this._meanInterval,
+            jitter: this._jitter,
+            peakDeviation: this._peakDeviation,
+            targetDepth: this._targetDepth,
+            minDepth: this._minDepth,
+            maxDepth: this._maxDepth,
+            samples: this._samples
+        };
+    }
+}
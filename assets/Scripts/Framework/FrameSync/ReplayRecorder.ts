@@ -0,0 +1,127 @@
+import { FrameData } from './FrameTypes';
+import { Logger } from '../Logger';
+
+/**
+ * 录像文件格式版本，格式不兼容的修改需要递增
+ */
+export const REPLAY_VERSION = 2;
+
+/**
+ * 录像中的玩家信息
+ */
+export interface ReplayPlayer {
+    playerId: string;
+    nickname: string;
+}
+
+/**
+ * 录像数据
+ * 包含重现一局游戏所需的全部信息：随机种子、对局配置、玩家列表和所有帧数据
+ */
+export interface ReplayData {
+    version: number;
+    roomId: string;
+    recordedAt: number;
+    randomSeed: number;
+    matchConfig: { [key: string]: any };
+    players: ReplayPlayer[];
+    frames: FrameData[];
+}
+
+/**
+ * 录像开始时需要的对局信息
+ */
+export interface ReplayHeader {
+    roomId: string;
+    randomSeed: number;
+    matchConfig: { [key: string]: any };
+    players: ReplayPlayer[];
+}
+
+/**
+ * 录像记录器
+ * 记录服务器下发的帧数据，用于复现问题和回看对局
+ */
+export class ReplayRecorder {
+    private _replay: ReplayData = null;
+    private _nextFrameId: number = -1;
+
+    /**
+     * 开始录制
+     */
+    public begin(header: ReplayHeader): void {
+        this._replay = {
+            version: REPLAY_VERSION,
+            roomId: header.roomId,
+            recordedAt: Date.now(),
+            randomSeed: header.randomSeed,
+            matchConfig: { ...header.matchConfig },
+            players: header.players.map(p => ({ playerId: p.playerId, nickname: p.nickname })),
+            frames: []
+        };
+        this._nextFrameId = -1;
+        Logger.log('ReplayRecorder', `开始录制房间 ${header.roomId}, 随机种子: ${header.randomSeed}`);
+    }
+
+    /**
+     * 记录一帧数据，重复或过期的帧会被忽略
+     */
+    public recordFrame(frameData: FrameData): void {
+        if (!this._replay) {
+            return;
+        }
+        if (this._nextFrameId >= 0 && frameData.frameId < this._nextFrameId) {
+            return;
+        }
+        if (this._nextFrameId >= 0 && frameData.frameId > this._nextFrameId) {
+            Logger.warn('ReplayRecorder', `帧数据不连续: 期望 ${this._nextFrameId}, 收到 ${frameData.frameId}`);
+        }
+        this._replay.frames.push({
+            frameId: frameData.frameId,
+            inputs: frameData.inputs,
+            timestamp: frameData.timestamp
+        });
+        this._nextFrameId = frameData.frameId + 1;
+    }
+
+    /**
+     * 结束录制并返回录像数据
+     */
+    public finish(): ReplayData {
+        const replay = this._replay;
+        this._replay = null;
+        this._nextFrameId = -1;
+        if (replay) {
+            Logger.log('ReplayRecorder', `录制结束, 共 ${replay.frames.length} 帧`);
+        }
+        return replay;
+    }
+
+    /**
+     * 是否正在录制
+     */
+    public get isRecording(): boolean {
+        return this._replay !== null;
+    }
+
+    /**
+     * 将录像序列化为字符串
+     */
+    public static serialize(replay: ReplayData): string {
+        return JSON.stringify(replay);
+    }
+
+    /**
+     * 解析录像字符串，版本不匹配或数据不完整时抛出异常
+     */
+    public static parse(json: string): ReplayData {
+        const replay: ReplayData = JSON.parse(json);
+        if (!replay || replay.version !== REPLAY_VERSION) {
+            throw new Error(`不支持的录像版本: ${replay ? replay.version : replay}`);
+        }
+        if (!Array.isArray(replay.players) || !Array.isArray(replay.frames) || typeof replay.randomSeed !== 'number') {
+            throw new Error('录像数据不完整');
+        }
+        return replay;
+    }
+}
@@ -0,0 +1,171 @@
+import { Fixed } from './FixedPoint';
+
+/**
+ * 轴对齐包围盒（定点数）
+ */
+export interface SpatialBounds {
+    minX: Fixed;
+    minY: Fixed;
+    maxX: Fixed;
+    maxY: Fixed;
+}
+
+/**
+ * 单轴上的格子坐标范围，超出的部分归入边缘格子，保证格子键在32位以内
+ */
+const MAX_CELL = 0x7FFF;
+
+/**
+ * 均匀网格空间哈希（碰撞检测的粗筛阶段）
+ * 物体按包围盒登记到覆盖的所有格子，同一格子内的物体两两成为候选对。
+ * 候选对按物体的插入顺序排序：插入顺序相同，各端得到的候选对顺序就完全相同，
+ * 且与逐对比较所有物体时的遍历顺序一致
+ */
+export class SpatialHash<T> {
+    private _cellSize: Fixed;
+    private _items: T[] = [];
+    private _bounds: SpatialBounds[] = [];
+    private _cells: Map<number, number[]> = new Map(); // 格子键 → 物体下标（升序）
+
+    /**
+     * @param cellSize 格子边长（定点数），取常见物体直径左右时效率最高
+     */
+    constructor(cellSize: Fixed) {
+        if (cellSize <= 0) {
+            throw new RangeError(`格子边长必须为正数: ${cellSize}`);
+        }
+        this._cellSize = cellSize;
+    }
+
+    /**
+     * 清空所有物体（每帧重新登记前调用）
+     */
+    public clear(): void {
+        this._items = [];
+        this._bounds = [];
+        this._cells.clear();
+    }
+
+    /**
+     * 已登记的物体数量
+     */
+    public get size(): number {
+        return this._items.length;
+    }
+
+    /**
+     * 登记物体，插入顺序决定候选对和查询结果的顺序
+     */
+    public insert(item: T, bounds: SpatialBounds): void {
+        const index = this._items.length;
+        this._items.push(item);
+        this._bounds.push(bounds);
+        this.forEachCell(bounds, key => {
+            const cell = this._cells.get(key);
+            if (cell) {
+                cell.push(index);
+            } else {
+                this._cells.set(key, [index]);
+            }
+        });
+    }
+
+    /**
+     * 更新已登记物体的包围盒（如物体在登记后变大），插入顺序不变；未登记的物体直接登记
+     */
+    public update(item: T, bounds: SpatialBounds): void {
+        const index = this._items.indexOf(item);
+        if (index < 0) {
+            this.insert(item, bounds);
+            return;
+        }
+        this.forEachCell(this._bounds[index], key => {
+            const cell = this._cells.get(key);
+            cell.splice(cell.indexOf(index), 1);
+            if (cell.length === 0) {
+                this._cells.delete(key);
+            }
+        });
+        this._bounds[index] = bounds;
+        this.forEachCell(bounds, key => {
+            const cell = this._cells.get(key);
+            if (!cell) {
+                this._cells.set(key, [index]);
+                return;
+            }
+            // 保持格子内的下标升序
+            let position = cell.length;
+            while (position > 0 && cell[position - 1] > index) {
+                position--;
+            }
+            cell.splice(position, 0, index);
+        });
+    }
+
+    /**
+     * 获取所有包围盒相交的候选对，每对只出现一次，按 (先插入的物体, 后插入的物体) 升序排列
+     */
+    public queryPairs(): [T, T][] {
+        const count = this._items.length;
+        const pairKeys = new Set<number>();
+        this._cells.forEach(cell => {
+            for (let i = 0; i < cell.length; i++) {
+                for (let j = i + 1; j < cell.length; j++) {
+                    if (this.overlaps(this._bounds[cell[i]], this._bounds[cell[j]])) {
+                        pairKeys.add(cell[i] * count + cell[j]);
+                    }
+                }
+            }
+        });
+
+        return Array.from(pairKeys)
+            .sort((a, b) => a - b)
+            .map(key => [this._items[Math.floor(key / count)], this._items[key % count]] as [T, T]);
+    }
+
+    /**
+     * 获取包围盒与指定范围相交的物体，按插入顺序排列
+     */
+    public query(bounds: SpatialBounds): T[] {
+        const indexes = new Set<number>();
+        this.forEachCell(bounds, key => {
+            const cell = this._cells.get(key);
+            if (cell) {
+                cell.forEach(index => {
+                    if (this.overlaps(this._bounds[index], bounds)) {
+                        indexes.add(index);
+                    }
+                });
+            }
+        });
+        return Array.from(indexes).sort((a, b) => a - b).map(index => this._items[index]);
+    }
+
+    /**
+     * 遍历包围盒覆盖的格子
+     */
+    private forEachCell(bounds: SpatialBounds, callback: (key: number) => void): void {
+        const minCellX = this.toCell(bounds.minX);
+        const maxCellX = this.toCell(bounds.maxX);
+        const minCellY = this.toCell(bounds.minY);
+        const maxCellY = this.toCell(bounds.maxY);
+        for (let x = minCellX; x <= maxCellX; x++) {
+            for (let y = minCellY; y <= maxCellY; y++) {
+                // 坐标偏移为非负数后拼成一个整数键
+                callback((x + MAX_CELL + 1) * 0x10000 + (y + MAX_CELL + 1));
+            }
+        }
+    }
+
+    /**
+     * 坐标所在的格子（定点数底层整数直接整除，不经过浮点坐标）
+     */
+    private toCell(value: Fixed): number {
+        const cell = Math.floor(value / this._cellSize);
+        return Math.max(-MAX_CELL, Math.min(MAX_CELL, cell));
+    }
+
+    private overlaps(a: SpatialBounds, b: SpatialBounds): boolean {
+        return a.minX <= b.maxX && b.minX <= a.maxX && a.minY <= b.maxY && b.minY <= a.maxY;
+    }
+}
@@ -0,0 +1,61 @@
+/**
+ * 确定性状态哈希 (FNV-1a 32位)
+ * 只接受整数和字符串输入，所有客户端对相同状态得到相同的哈希值
+ */
+export class StateHash {
+    private static readonly OFFSET_BASIS = 0x811c9dc5;
+    private static readonly PRIME = 0x01000193;
+
+    private _hash: number = StateHash.OFFSET_BASIS;
+
+    /**
+     * 加入一个整数（定点数、积分、随机种子等）
+     * 超出32位的整数会拆成高低两部分分别加入
+     */
+    public addInt(n: number): StateHash {
+        const low = n | 0;
+        const high = Math.floor(n / 0x100000000) | 0;
+        this.addInt32(low);
+        this.addInt32(high);
+        return this;
+    }
+
+    /**
+     * 加入一个字符串
+     */
+    public addString(str: string): StateHash {
+        this.addInt32(str.length);
+        for (let i = 0; i < str.length; i++) {
+            this.addByte(str.charCodeAt(i) & 0xff);
+            this.addByte((str.charCodeAt(i) >>> 8) & 0xff);
+        }
+        return this;
+    }
+
+    /**
+     * 加入一个布尔值
+     */
+    public addBool(b: boolean): StateHash {
+        this.addByte(b ? 1 : 0);
+        return this;
+    }
+
+    /**
+     * 获取哈希值（无符号32位整数）
+     */
+    public digest(): number {
+        return this._hash >>> 0;
+    }
+
+    private addInt32(n: number): void {
+        this.addByte(n & 0xff);
+        this.addByte((n >>> 8) & 0xff);
+        this.addByte((n >>> 16) & 0xff);
+        this.addByte((n >>> 24) & 0xff);
+    }
+
+    private addByte(b: number): void {
+        this._hash ^= b;
+        this._hash = Math.imul(this._hash, StateHash.PRIME);
+    }
+}
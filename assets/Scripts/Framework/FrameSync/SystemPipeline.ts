@@ -0,0 +1,90 @@
+/**
+ * 模拟阶段，每帧按数值从小到大依次执行
+ */
+export enum SimulationPhase {
+    INPUT = 0, // 应用玩家输入
+    MOVEMENT = 1, // 移动与边界处理
+    COLLISION = 2, // 碰撞检测与处理
+    RULES = 3, // 计分、胜负等规则
+    CLEANUP = 4, // 移除失效的实体
+    POST_FRAME = 5 // 帧末处理（视图同步、状态校验等），不应再修改模拟状态
+}
+
+/**
+ * 模拟系统
+ * 同一阶段内按优先级从小到大执行，优先级相同时按名称排序，执行顺序与注册顺序无关
+ */
+export interface SimulationSystem<TContext> {
+    readonly name: string; // 系统名称，在同一管线内唯一
+    readonly phase: SimulationPhase;
+    readonly priority?: number; // 默认 0
+    execute(context: TContext): void;
+}
+
+/**
+ * 系统管线
+ * 按阶段、优先级和名称确定的顺序执行所有系统，保证各端执行顺序一致
+ */
+export class SystemPipeline<TContext> {
+    private _systems: SimulationSystem<TContext>[] = [];
+
+    /**
+     * 注册系统，名称重复时抛出异常
+     */
+    public add(system: SimulationSystem<TContext>): void {
+        if (this.has(system.name)) {
+            throw new Error(`系统 ${system.name} 已注册`);
+        }
+        // 生成新数组，执行过程中增删系统不影响本帧的执行顺序
+        this._systems = this._systems.concat(system).sort(SystemPipeline.compare);
+    }
+
+    /**
+     * 移除系统，返回是否存在该系统
+     */
+    public remove(name: string): boolean {
+        const systems = this._systems.filter(system => system.name !== name);
+        const removed = systems.length !== this._systems.length;
+        this._systems = systems;
+        return removed;
+    }
+
+    /**
+     * 是否已注册指定名称的系统
+     */
+    public has(name: string): boolean {
+        return this._systems.some(system => system.name === name);
+    }
+
+    /**
+     * 按执行顺序列出系统名称
+     */
+    public get systemNames(): string[] {
+        return this._systems.map(system => system.name);
+    }
+
+    /**
+     * 按顺序执行所有系统
+     */
+    public run(context: TContext): void {
+        const systems = this._systems;
+        for (let i = 0; i < systems.length; i++) {
+            systems[i].execute(context);
+        }
+    }
+
+    /**
+     * 排序规则：阶段 → 优先级 → 名称（按字符编码比较，不受运行环境语言设置影响）
+     */
+    private static compare<T>(a: SimulationSystem<T>, b: SimulationSystem<T>): number {
+        if (a.phase !== b.phase) {
+            return a.phase - b.phase;
+        }
+        const priorityA = a.priority || 0;
+        const priorityB = b.priority || 0;
+        if (priorityA !== priorityB) {
+            return priorityA - priorityB;
+        }
+        return a.name < b.name ? -1 : (a.name > b.name ? 1 : 0);
+    }
+}
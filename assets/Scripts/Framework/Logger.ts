@@ -1,4 +1,3 @@
-import { _decorator } from 'cc';
 
 /**
  * 一个带时间戳和标签的自定义日志记录器。
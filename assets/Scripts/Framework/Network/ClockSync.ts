@@ -0,0 +1,106 @@
+/**
+ * 一次 ping/pong 测量
+ */
+interface ClockSample {
+    rtt: number; // 往返时延（扣除服务器处理时间，毫秒）
+    offset: number; // 服务器时钟 - 本地时钟（毫秒）
+}
+
+/**
+ * 时钟同步
+ * 按 NTP 的方式由 ping/pong 的四个时间戳估算往返时延和与服务器的时钟偏移，
+ * 并在最近的若干样本中取往返时延最小的一次作为偏移估计（时延越小，单程不对称带来的误差越小）
+ */
+export class ClockSync {
+    private _samples: ClockSample[] = [];
+    private _maxSamples: number;
+    private _offset: number = 0;
+    private _rtt: number = -1;
+
+    /**
+     * @param maxSamples 滤波保留的最近样本数
+     */
+    constructor(maxSamples: number = 8) {
+        this._maxSamples = maxSamples;
+    }
+
+    /**
+     * 加入一次测量
+     * @param clientSendTime 客户端发送 ping 的本地时间
+     * @param serverReceiveTime 服务器收到 ping 的服务器时间
+     * @param serverSendTime 服务器发送 pong 的服务器时间
+     * @param clientReceiveTime 客户端收到 pong 的本地时间
+     */
+    public addSample(clientSendTime: number, serverReceiveTime: number, serverSendTime: number, clientReceiveTime: number): void {
+        const rtt = Math.max(0, (clientReceiveTime - clientSendTime) - (serverSendTime - serverReceiveTime));
+        const offset = ((serverReceiveTime - clientSendTime) + (serverSendTime - clientReceiveTime)) / 2;
+
+        this._samples.push({ rtt: rtt, offset: offset });
+        if (this._samples.length > this._maxSamples) {
+            this._samples.shift();
+        }
+
+        let best = this._samples[0];
+        this._samples.forEach(sample => {
+            if (sample.rtt < best.rtt) {
+                best = sample;
+            }
+        });
+        this._offset = best.offset;
+        this._rtt = rtt;
+    }
+
+    /**
+     * 是否已有测量结果
+     */
+    public get isSynced(): boolean {
+        return this._samples.length > 0;
+    }
+
+    /**
+     * 服务器时钟相对本地时钟的偏移（毫秒）
+     */
+    public get offset(): number {
+        return this._offset;
+    }
+
+    /**
+     * 最近一次测量的往返时延（毫秒），没有测量时为 -1
+     */
+    public get rtt(): number {
+        return this._rtt;
+    }
+
+    /**
+     * 最近样本中最小的往返时延（毫秒），没有测量时为 -1
+     */
+    public get minRtt(): number {
+        if (this._samples.length === 0) {
+            return -1;
+        }
+        return Math.min(...this._samples.map(sample => sample.rtt));
+    }
+
+    /**
+     * 本地时间换算为服务器时间
+     */
+    public toServerTime(localTime: number): number {
+        return localTime + this._offset;
+    }
+
+    /**
+     * 服务器时间换算为本地时间
+     */
+    public toLocalTime(serverTime: number): number {
+        return serverTime - this._offset;
+    }
+
+    /**
+     * 清空测量（重新连接服务器时）
+     */
+    public reset(): void {
+        this._samples = [];
+        this._offset = 0;
+        this._rtt = -1;
+    }
+}
@@ -1,4 +1,6 @@
 import { _decorator, Component, Node, director } from 'cc';
+import { NetworkStats, NetworkStatsSnapshot } from './NetworkStats';
+import { ClockSync } from './ClockSync';
 const { ccclass, property } = _decorator;
 
 /**
@@ -6,6 +8,7 @@ const { ccclass, property } = _decorator;
  */
 export enum MessageType {
     JOIN_ROOM = 'joinRoom',
+    JOIN_FAILED = 'joinFailed', // 加入房间失败（房间已满）
     LEAVE_ROOM = 'leaveRoom',
     FRAME_DATA = 'frameData',
     PLAYER_INPUT = 'playerInput',
@@ -15,7 +18,31 @@ export enum MessageType {
     GAME_START = 'gameStart',
     FIND_OR_CREATE_ROOM = 'findOrCreateRoom', // 新增消息类型
     PLAYER_SCORE = 'playerScore', // 玩家积分事件
-    SCORE_UPDATE = 'scoreUpdate' // 积分更新通知
+    SCORE_UPDATE = 'scoreUpdate', // 积分更新通知
+    STATE_HASH = 'stateHash', // 客户端上报状态哈希
+    DESYNC = 'desync', // 服务器检测到状态不一致
+    REJOIN_ROOM = 'rejoinRoom', // 断线重连，恢复房间席位
+    REJOIN_FAILED = 'rejoinFailed', // 重连失败（席位已被移除）
+    SNAPSHOT_REQUEST = 'snapshotRequest', // 服务器请求本端提供状态快照
+    STATE_SNAPSHOT = 'stateSnapshot', // 状态快照（本端提供或用于追帧）
+    GAME_RESULT = 'gameResult', // 服务器权威模拟判定的对局结果
+    RESULT_REPORT = 'resultReport', // 客户端上报本地模拟的对局结果
+    RESULT_REJECTED = 'resultRejected', // 上报的对局结果与服务器不一致
+    PAUSE_REQUEST = 'pauseRequest', // 请求暂停（多人时发起投票）
+    PAUSE_VOTE = 'pauseVote', // 暂停投票（服务器广播进度，客户端表态）
+    GAME_PAUSED = 'gamePaused', // 房间在指定帧暂停
+    RESUME_REQUEST = 'resumeRequest', // 请求恢复游戏
+    RESUME_COUNTDOWN = 'resumeCountdown', // 恢复倒计时开始
+    GAME_RESUMED = 'gameResumed', // 房间恢复运行
+    FRAME_ACK = 'frameAck', // 确认已连续收到的最高帧
+    RESEND_FRAMES = 'resendFrames', // 请求重发指定范围的帧
+    INPUT_ACK = 'inputAck', // 服务器确认输入序号及其生效帧
+    PING = 'ping', // 测量往返时延与时钟偏移
+    PONG = 'pong', // 服务器对 ping 的应答，带服务器收发时间
+    SPECTATE_ROOM = 'spectateRoom', // 以观战者身份进入房间
+    SPECTATE_INFO = 'spectateInfo', // 观战开始（房间、玩家列表、对局配置和观战延迟）
+    SPECTATE_FAILED = 'spectateFailed', // 没有可观战的房间
+    SPECTATE_ENDED = 'spectateEnded' // 观战的房间已关闭
 }
 
 /**
@@ -39,6 +66,17 @@ export class NetworkManager extends Component {
     private _messageHandlers: Map<MessageType, Function[]> = new Map();
     private _playerId: string = '';
     private _roomId: string = '';
+    private _isSpectator: boolean = false; // 是否以观战者身份在房间中
+    private _serverUrl: string = 'ws://localhost:8080';
+    private _isManualDisconnect: boolean = false; // 主动断开时不自动重连
+    private _reconnectAttempts: number = 0;
+    private _reconnectTimer: any = null;
+    private _stats: NetworkStats = new NetworkStats(); // 流量与往返时延统计
+    private _clockSync: ClockSync = new ClockSync(); // 与服务器的时钟同步
+    private _pingTimer: any = null;
+    public pingInterval: number = 1000; // 发送 ping 的间隔（毫秒）
+    public maxReconnectAttempts: number = 5;
+    public reconnectInterval: number = 2000; // 首次重连间隔（毫秒），之后逐次翻倍
     
     public static get instance(): NetworkManager {
         if (!NetworkManager._instance) {
@@ -56,23 +94,43 @@ export class NetworkManager extends Component {
         }
         NetworkManager._instance = this;
         this.generatePlayerId();
+        // 记录服务器分配的房间，用于断线重连
+        this.registerMessageHandler(MessageType.ROOM_INFO, (message: NetworkMessage) => {
+            this._roomId = message.data.roomId;
+        });
+        this.registerMessageHandler(MessageType.SPECTATE_INFO, (message: NetworkMessage) => {
+            this._roomId = message.data.roomId;
+            this._isSpectator = true;
+        });
+        const onSpectateClosed = () => {
+            this._roomId = '';
+            this._isSpectator = false;
+        };
+        this.registerMessageHandler(MessageType.SPECTATE_FAILED, onSpectateClosed);
+        this.registerMessageHandler(MessageType.SPECTATE_ENDED, onSpectateClosed);
+        this.registerMessageHandler(MessageType.PONG, this.onPong.bind(this));
     }
 
     /**
      * 连接到服务器
      */
-    public connect(serverUrl: string = 'ws://localhost:8080'): Promise<void> {
+    public connect(serverUrl: string = this._serverUrl): Promise<void> {
         return new Promise((resolve, reject) => {
             if (this._socket && this._socket.readyState === WebSocket.OPEN) {
                 resolve();
                 return;
             }
 
-            this._socket = new WebSocket(serverUrl);
+            this._serverUrl = serverUrl;
+            this._isManualDisconnect = false;
+            const socket = new WebSocket(serverUrl);
+            this._socket = socket;
             
             this._socket.onopen = () => {
                 console.log('WebSocket连接成功');
                 this._isConnected = true;
+                this._reconnectAttempts = 0;
+                this.startPing();
                 resolve();
             };
 
@@ -83,6 +141,13 @@ export class NetworkManager extends Component {
             this._socket.onclose = () => {
                 console.log('WebSocket连接关闭');
                 this._isConnected = false;
+                if (this._socket === socket) {
+                    this.stopPing();
+                }
+                // 在房间中意外断开时尝试重连
+                if (this._socket === socket && !this._isManualDisconnect && this._roomId) {
+                    this.scheduleReconnect();
+                }
             };
 
             this._socket.onerror = (error) => {
@@ -97,6 +162,12 @@ export class NetworkManager extends Component {
      * 断开连接
      */
     public disconnect(): void {
+        this._isManualDisconnect = true;
+        if (this._reconnectTimer) {
+            clearTimeout(this._reconnectTimer);
+            this._reconnectTimer = null;
+        }
+        this.stopPing();
         if (this._socket) {
             this._socket.close();
             this._socket = null;
@@ -104,6 +175,91 @@ export class NetworkManager extends Component {
         this._isConnected = false;
     }
 
+    /**
+     * 开始定时 ping 服务器（重新连接后重新测量时钟偏移）
+     */
+    private startPing(): void {
+        this.stopPing();
+        this._clockSync.reset();
+        this.sendPing();
+        this._pingTimer = setInterval(this.sendPing.bind(this), this.pingInterval);
+    }
+
+    /**
+     * 停止 ping
+     */
+    private stopPing(): void {
+        if (this._pingTimer) {
+            clearInterval(this._pingTimer);
+            this._pingTimer = null;
+        }
+    }
+
+    /**
+     * 发送 ping，带本地发送时间
+     */
+    private sendPing(): void {
+        if (!this._isConnected) {
+            return;
+        }
+        this.sendMessage({
+            type: MessageType.PING,
+            data: {
+                clientTime: Date.now()
+            }
+        });
+    }
+
+    /**
+     * 收到 pong：更新时钟偏移与往返时延
+     */
+    private onPong(message: NetworkMessage): void {
+        const pongData = message.data;
+        this._clockSync.addSample(pongData.clientTime, pongData.serverReceiveTime, pongData.serverSendTime, Date.now());
+        this._stats.recordRtt(this._clockSync.rtt);
+    }
+
+    /**
+     * 安排一次重连，间隔逐次翻倍
+     */
+    private scheduleReconnect(): void {
+        if (this._reconnectTimer) {
+            return;
+        }
+        if (this._reconnectAttempts >= this.maxReconnectAttempts) {
+            console.warn(`重连失败次数已达上限 (${this.maxReconnectAttempts})，放弃重连`);
+            this._roomId = '';
+            return;
+        }
+        const delay = this.reconnectInterval * Math.pow(2, this._reconnectAttempts);
+        this._reconnectAttempts++;
+        console.log(`${delay}ms 后进行第 ${this._reconnectAttempts} 次重连`);
+        this._reconnectTimer = setTimeout(() => {
+            this._reconnectTimer = null;
+            this.reconnect();
+        }, delay);
+    }
+
+    /**
+     * 重新连接服务器并恢复房间席位（观战者重新进入观战）
+     */
+    public reconnect(): Promise<void> {
+        const roomId = this._roomId;
+        const isSpectator = this._isSpectator;
+        return this.connect(this._serverUrl)
+            .then(() => {
+                if (roomId && isSpectator) {
+                    this.spectateRoom(roomId);
+                } else if (roomId) {
+                    this.rejoinRoom(roomId);
+                }
+            })
+            .catch(error => {
+                console.error('重连失败:', error);
+                this.scheduleReconnect();
+            });
+    }
+
     /**
      * 发送消息
      */
@@ -116,13 +272,16 @@ export class NetworkManager extends Component {
         message.timestamp = Date.now();
         message.playerId = this._playerId;
         
-        this._socket.send(JSON.stringify(message));
+        const json = JSON.stringify(message);
+        this._stats.recordOutgoing(json.length);
+        this._socket.send(json);
     }
 
     /**
      * 处理接收到的消息
      */
     private handleMessage(data: string): void {
+        this._stats.recordIncoming(data.length);
         try {
             const message: NetworkMessage = JSON.parse(data);
             const handlers = this._messageHandlers.get(message.type);
@@ -163,12 +322,25 @@ export class NetworkManager extends Component {
      */
     public joinRoom(roomId: string): void {
         this._roomId = roomId;
+        this._isSpectator = false;
         this.sendMessage({
             type: MessageType.JOIN_ROOM,
             data: { roomId, playerId: this._playerId }
         });
     }
 
+    /**
+     * 重新加入断线前所在的房间
+     */
+    public rejoinRoom(roomId: string): void {
+        this._roomId = roomId;
+        this._isSpectator = false;
+        this.sendMessage({
+            type: MessageType.REJOIN_ROOM,
+            data: { roomId, playerId: this._playerId }
+        });
+    }
+
     /**
      * 离开房间
      */
@@ -180,12 +352,25 @@ export class NetworkManager extends Component {
             });
             this._roomId = '';
         }
+        this._isSpectator = false;
+    }
+
+    /**
+     * 以观战者身份进入房间，不指定房间时由服务器选择一个正在对局的房间
+     */
+    public spectateRoom(roomId: string = ''): void {
+        this._isSpectator = true;
+        this.sendMessage({
+            type: MessageType.SPECTATE_ROOM,
+            data: { roomId: roomId || null, playerId: this._playerId }
+        });
     }
 
     /**
      * 查找或创建房间
      */
     public findAndJoinRoom(): void {
+        this._isSpectator = false;
         this.sendMessage({
             type: MessageType.FIND_OR_CREATE_ROOM,
             data: { playerId: this._playerId }
@@ -193,18 +378,105 @@ export class NetworkManager extends Component {
     }
 
     /**
-     * 发送输入数据
+     * 发送输入数据（最新输入及之前尚未确认的几条，按序号升序）
      */
-    public sendInput(input: any): void {
+    public sendInputs(inputs: any[]): void {
         this.sendMessage({
             type: MessageType.PLAYER_INPUT,
             data: {
                 // 不再需要 frameId
-                input: input
+                inputs: inputs
             }
         });
     }
 
+    /**
+     * 上报指定帧的状态哈希
+     */
+    public sendStateHash(frameId: number, hash: number): void {
+        this.sendMessage({
+            type: MessageType.STATE_HASH,
+            data: {
+                frameId: frameId,
+                hash: hash
+            }
+        });
+    }
+
+    /**
+     * 确认已连续收到直到指定帧的全部帧数据
+     */
+    public sendFrameAck(frameId: number): void {
+        this.sendMessage({
+            type: MessageType.FRAME_ACK,
+            data: {
+                frameId: frameId
+            }
+        });
+    }
+
+    /**
+     * 请求服务器重发 fromFrame 到 toFrame（含）之间的帧
+     */
+    public requestResendFrames(fromFrame: number, toFrame: number): void {
+        this.sendMessage({
+            type: MessageType.RESEND_FRAMES,
+            data: {
+                fromFrame: fromFrame,
+                toFrame: toFrame
+            }
+        });
+    }
+
+    /**
+     * 是否已完成与服务器的时钟同步
+     */
+    public get isClockSynced(): boolean {
+        return this._clockSync.isSynced;
+    }
+
+    /**
+     * 服务器时钟相对本地时钟的偏移（毫秒）
+     */
+    public get clockOffset(): number {
+        return this._clockSync.offset;
+    }
+
+    /**
+     * 滚动平均往返时延（毫秒），没有测量时为 -1
+     */
+    public get rtt(): number {
+        return this._stats.rtt;
+    }
+
+    /**
+     * 估算的当前服务器时间
+     */
+    public get serverTime(): number {
+        return this._clockSync.toServerTime(Date.now());
+    }
+
+    /**
+     * 服务器时间换算为本地时间
+     */
+    public toLocalTime(serverTime: number): number {
+        return this._clockSync.toLocalTime(serverTime);
+    }
+
+    /**
+     * 获取网络统计收集器
+     */
+    public get stats(): NetworkStats {
+        return this._stats;
+    }
+
+    /**
+     * 获取当前网络统计
+     */
+    public getNetworkStats(): NetworkStatsSnapshot {
+        return this._stats.getSnapshot();
+    }
+
     /**
      * 生成唯一玩家ID
      */
@@ -219,6 +491,13 @@ export class NetworkManager extends Component {
         return this._playerId;
     }
 
+    /**
+     * 是否以观战者身份在房间中
+     */
+    public get isSpectator(): boolean {
+        return this._isSpectator;
+    }
+
     /**
      * 获取房间ID
      */
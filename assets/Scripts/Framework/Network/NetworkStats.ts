@@ -0,0 +1,159 @@
+/**
+ * 网络流量与时延统计快照
+ */
+export interface NetworkStatsSnapshot {
+    rtt: number; // 滚动平均往返时延（毫秒），没有样本时为 -1
+    rttMin: number; // 统计窗口内的最小往返时延（毫秒）
+    rttMax: number; // 统计窗口内的最大往返时延（毫秒）
+    messagesIn: number; // 累计收到的消息数
+    messagesOut: number; // 累计发送的消息数
+    bytesIn: number; // 累计收到的字节数
+    bytesOut: number; // 累计发送的字节数
+    messagesInPerSecond: number;
+    messagesOutPerSecond: number;
+    bytesInPerSecond: number;
+    bytesOutPerSecond: number;
+}
+
+/**
+ * 单方向的流量计数（累计值和最近一个窗口内的速率）
+ */
+class TrafficCounter {
+    private _messages: number = 0;
+    private _bytes: number = 0;
+    private _recent: { time: number; bytes: number }[] = [];
+    private _windowMs: number;
+
+    constructor(windowMs: number) {
+        this._windowMs = windowMs;
+    }
+
+    public record(bytes: number, now: number): void {
+        this._messages++;
+        this._bytes += bytes;
+        this._recent.push({ time: now, bytes: bytes });
+        this.prune(now);
+    }
+
+    public get messages(): number {
+        return this._messages;
+    }
+
+    public get bytes(): number {
+        return this._bytes;
+    }
+
+    public messagesPerSecond(now: number): number {
+        this.prune(now);
+        return this._recent.length * 1000 / this._windowMs;
+    }
+
+    public bytesPerSecond(now: number): number {
+        this.prune(now);
+        const bytes = this._recent.reduce((sum, item) => sum + item.bytes, 0);
+        return bytes * 1000 / this._windowMs;
+    }
+
+    public reset(): void {
+        this._messages = 0;
+        this._bytes = 0;
+        this._recent = [];
+    }
+
+    private prune(now: number): void {
+        let count = 0;
+        while (count < this._recent.length && now - this._recent[count].time > this._windowMs) {
+            count++;
+        }
+        if (count > 0) {
+            this._recent.splice(0, count);
+        }
+    }
+}
+
+/**
+ * 网络统计收集器
+ * 记录收发的消息数与字节数（按消息字符串长度估算），以及滚动窗口内的往返时延
+ */
+export class NetworkStats {
+    private _incoming: TrafficCounter;
+    private _outgoing: TrafficCounter;
+    private _rttSamples: number[] = [];
+    private _maxRttSamples: number;
+
+    /**
+     * @param rateWindowMs 计算每秒速率的时间窗口（毫秒）
+     * @param maxRttSamples 滚动往返时延保留的样本数
+     */
+    constructor(rateWindowMs: number = 1000, maxRttSamples: number = 20) {
+        this._incoming = new TrafficCounter(rateWindowMs);
+        this._outgoing = new TrafficCounter(rateWindowMs);
+        this._maxRttSamples = maxRttSamples;
+    }
+
+    /**
+     * 记录收到的一条消息
+     */
+    public recordIncoming(bytes: number, now: number = Date.now()): void {
+        this._incoming.record(bytes, now);
+    }
+
+    /**
+     * 记录发送的一条消息
+     */
+    public recordOutgoing(bytes: number, now: number = Date.now()): void {
+        this._outgoing.record(bytes, now);
+    }
+
+    /**
+     * 记录一次往返时延样本（毫秒）
+     */
+    public recordRtt(rtt: number): void {
+        if (rtt < 0) {
+            return;
+        }
+        this._rttSamples.push(rtt);
+        if (this._rttSamples.length > this._maxRttSamples) {
+            this._rttSamples.shift();
+        }
+    }
+
+    /**
+     * 滚动平均往返时延（毫秒），没有样本时为 -1
+     */
+    public get rtt(): number {
+        if (this._rttSamples.length === 0) {
+            return -1;
+        }
+        return this._rttSamples.reduce((sum, value) => sum + value, 0) / this._rttSamples.length;
+    }
+
+    /**
+     * 获取当前统计快照
+     */
+    public getSnapshot(now: number = Date.now()): NetworkStatsSnapshot {
+        const hasRtt = this._rttSamples.length > 0;
+        return {
+            rtt: this.rtt,
+            rttMin: hasRtt ? Math.min(...this._rttSamples) : -1,
+            rttMax: hasRtt ? Math.max(...this._rttSamples) : -1,
+            messagesIn: this._incoming.messages,
+            messagesOut: this._outgoing.messages,
+            bytesIn: this._incoming.bytes,
+            bytesOut: this._outgoing.bytes,
+            messagesInPerSecond: this._incoming.messagesPerSecond(now),
+            messagesOutPerSecond: this._outgoing.messagesPerSecond(now),
+            bytesInPerSecond: this._incoming.bytesPerSecond(now),
+            bytesOutPerSecond: this._outgoing.bytesPerSecond(now)
+        };
+    }
+
+    /**
+     * 清空所有统计
+     */
+    public reset(): void {
+        this._incoming.reset();
+        this._outgoing.reset();
+        this._rttSamples = [];
+    }
+}
@@ -1,10 +1,22 @@
 import { _decorator, Component, Node, Prefab, director, instantiate, Color, UITransform, Vec2 } from 'cc';
+import { DEBUG } from 'cc/env';
 import { NetworkManager, MessageType } from '../Framework/Network/NetworkManager';
-import { FrameSyncManager, FrameData } from '../Framework/FrameSync/FrameSyncManager';
+import { FrameSyncManager, IStateSnapshotProvider } from '../Framework/FrameSync/FrameSyncManager';
+import { FrameData } from '../Framework/FrameSync/FrameTypes';
 import { InputManager } from '../Framework/FrameSync/InputManager';
 import { Ball } from './Ball';
+import { PelletView } from './PelletView';
+import { BallEntity } from './Simulation/BallEntity';
+import { GameSimulation, SimulationState, SimulationContext, GameSystem, RandomStream } from './Simulation/GameSimulation';
+import { SimulationPhase } from '../Framework/FrameSync/SystemPipeline';
+import { MatchConfig, MatchConfigOverrides, DEFAULT_MATCH_CONFIG, mergeMatchConfig } from './Simulation/MatchConfig';
+import { runDeterminismCheck } from './Simulation/DeterminismCheck';
+import { runBallCollisionTest, runMovementModelTest, runSizeRulesTest, runPelletTest } from './Simulation/SimulationTests';
 import { Logger } from '../Framework/Logger';
-import { FixedVec2, fromFloat, toFloat, DeterministicRandom } from '../Framework/FrameSync/FixedPoint';
+import { ReplayData, ReplayRecorder } from '../Framework/FrameSync/ReplayRecorder';
+import { DeterministicRandom, RandomStreams } from '../Framework/FrameSync/DeterministicRandom';
+import { SpatialHash } from '../Framework/FrameSync/SpatialHash';
+import { Fixed, FixedVec2, fromFloat, fromRaw, fMul, fDiv, fSin, fCos, fAtan2, FIXED_ONE, FIXED_HALF, FIXED_PI, FIXED_HALF_PI, setFixedPointDebug, isFixedPointDebug } from '../Framework/FrameSync/FixedPoint';
 
 /**
  * 游戏状态枚举
@@ -26,19 +38,36 @@ export interface PlayerInfo {
     ballNode?: Node;
 }
 
+/**
+ * 对局结果（服务器权威模拟判定或本地上报）
+ */
+export interface MatchResult {
+    frameId: number;
+    winnerId: string | null;
+    scores: [string, number][];
+}
+
+/**
+ * 暂停投票信息（服务器广播）
+ */
+export interface PauseVoteInfo {
+    voteId: string;
+    requesterId: string;
+    status: 'pending' | 'passed' | 'rejected';
+    votes: { [playerId: string]: boolean };
+    required: number; // 通过所需的同意票数
+}
+
 /**
  * 游戏管理器单例
+ * 游戏逻辑由无头模拟 GameSimulation 执行，这里负责网络消息、对局流程和小球视图
  */
-export class GameManager {
+export class GameManager implements IStateSnapshotProvider {
     private static _instance: GameManager = null;
     
     public ballPrefab: Prefab = null;
     public gameArea: Node = null;
-    public maxPlayers: number = 4;
-    public gameAreaWidth: number = 720;
-    public gameAreaHeight: number = 1280;
-    public ballMinRadius: number = 15; // 球的最小半径
-    public ballMaxRadius: number = 35; // 球的最大半径
+    public checksumInterval: number = 30; // 每隔多少帧上报一次状态哈希
     
     private _networkManager: NetworkManager = null;
     private _frameSyncManager: FrameSyncManager = null;
@@ -46,17 +75,43 @@ export class GameManager {
     private _gameState: GameState = GameState.WAITING;
     private _players: Map<string, PlayerInfo> = new Map();
     private _balls: Map<string, Ball> = new Map();
+    private _pelletView: PelletView = null; // 食物视图，首次同步时在游戏区域中创建
     private _myPlayerId: string = '';
     private _roomId: string = '';
     private _ownerId: string = ''; // 新增房主ID
     private _gameStartTime: number = 0;
-    private _playerScores: Map<string, number> = new Map(); // 玩家积分
-    private _randomGenerator: DeterministicRandom = new DeterministicRandom(); // 确定性随机数生成器
+    private _simulation: GameSimulation = new GameSimulation(); // 确定性游戏模拟
+    private _matchConfig: MatchConfig = mergeMatchConfig(DEFAULT_MATCH_CONFIG); // 当前对局配置，以服务器下发为准
+    private _lastReplay: ReplayData = null; // 最近一局的录像
+    private _officialResult: MatchResult = null; // 服务器公布的本局结果
+    private _pauseVote: PauseVoteInfo = null; // 进行中的暂停投票
+    private _resumeAt: number = 0; // 恢复倒计时结束的本地时间，0 表示没有倒计时
+    private _isReplayMode: boolean = false; // 是否正在回放录像
+    private _isSpectator: boolean = false; // 是否以观战者身份在房间中
+    private _spectatorCount: number = 0; // 房间内的观战人数
+    // 等待确认后上报的状态哈希，以及最近若干次校验帧的状态转储（用于定位不同步）
+    private _pendingHashes: Map<number, number> = new Map();
+    private _stateDumps: Map<number, { hash: number, state: SimulationState }> = new Map();
+    private readonly _maxStateDumps: number = 20;
+    private _clientSystems: GameSystem[] = []; // 注册到模拟管线的客户端系统
 
     // 用于修复内存泄漏的绑定函数
     private _boundOnRoomInfo: (message: any) => void;
     private _boundOnGameStart: (message: any) => void;
     private _boundOnFrameUpdate: (frameData: FrameData, fixedDeltaTime: number) => void;
+    private _boundOnDesync: (message: any) => void;
+    private _boundOnSnapshotRequest: (message: any) => void;
+    private _boundOnStateSnapshot: (message: any) => void;
+    private _boundOnRejoinFailed: (message: any) => void;
+    private _boundOnJoinFailed: (message: any) => void;
+    private _boundOnGameResult: (message: any) => void;
+    private _boundOnResultRejected: (message: any) => void;
+    private _boundOnPauseVote: (message: any) => void;
+    private _boundOnGamePaused: (message: any) => void;
+    private _boundOnResumeCountdown: (message: any) => void;
+    private _boundOnGameResumed: (message: any) => void;
+    private _boundOnSpectateInfo: (message: any) => void;
+    private _boundOnSpectateClosed: (message: any) => void;
 
     private constructor() {
         // 私有构造函数，防止外部实例化
@@ -76,6 +131,9 @@ export class GameManager {
      * 初始化游戏管理器
      */
     public init(): void {
+        // 调试构建中检查定点数是否超出32位范围
+        setFixedPointDebug(DEBUG);
+
         // 获取管理器实例
         this._networkManager = NetworkManager.instance;
         this._frameSyncManager = FrameSyncManager.instance;
@@ -85,13 +143,49 @@ export class GameManager {
         this._boundOnRoomInfo = this.onRoomInfo.bind(this);
         this._boundOnGameStart = this.onGameStart.bind(this);
         this._boundOnFrameUpdate = this.onFrameUpdate.bind(this);
+        this._boundOnDesync = this.onDesync.bind(this);
+        this._boundOnSnapshotRequest = this.onSnapshotRequest.bind(this);
+        this._boundOnStateSnapshot = this.onStateSnapshot.bind(this);
+        this._boundOnRejoinFailed = this.onRejoinFailed.bind(this);
+        this._boundOnJoinFailed = this.onJoinFailed.bind(this);
+        this._boundOnGameResult = this.onGameResult.bind(this);
+        this._boundOnResultRejected = this.onResultRejected.bind(this);
+        this._boundOnPauseVote = this.onPauseVote.bind(this);
+        this._boundOnGamePaused = this.onGamePaused.bind(this);
+        this._boundOnResumeCountdown = this.onResumeCountdown.bind(this);
+        this._boundOnGameResumed = this.onGameResumed.bind(this);
+        this._boundOnSpectateInfo = this.onSpectateInfo.bind(this);
+        this._boundOnSpectateClosed = this.onSpectateClosed.bind(this);
 
         // 注册网络消息处理器
         this._networkManager.registerMessageHandler(MessageType.ROOM_INFO, this._boundOnRoomInfo);
         this._networkManager.registerMessageHandler(MessageType.GAME_START, this._boundOnGameStart);
+        this._networkManager.registerMessageHandler(MessageType.DESYNC, this._boundOnDesync);
+        this._networkManager.registerMessageHandler(MessageType.SNAPSHOT_REQUEST, this._boundOnSnapshotRequest);
+        this._networkManager.registerMessageHandler(MessageType.STATE_SNAPSHOT, this._boundOnStateSnapshot);
+        this._networkManager.registerMessageHandler(MessageType.REJOIN_FAILED, this._boundOnRejoinFailed);
+        this._networkManager.registerMessageHandler(MessageType.JOIN_FAILED, this._boundOnJoinFailed);
+        this._networkManager.registerMessageHandler(MessageType.GAME_RESULT, this._boundOnGameResult);
+        this._networkManager.registerMessageHandler(MessageType.RESULT_REJECTED, this._boundOnResultRejected);
+        this._networkManager.registerMessageHandler(MessageType.PAUSE_VOTE, this._boundOnPauseVote);
+        this._networkManager.registerMessageHandler(MessageType.GAME_PAUSED, this._boundOnGamePaused);
+        this._networkManager.registerMessageHandler(MessageType.RESUME_COUNTDOWN, this._boundOnResumeCountdown);
+        this._networkManager.registerMessageHandler(MessageType.GAME_RESUMED, this._boundOnGameResumed);
+        this._networkManager.registerMessageHandler(MessageType.SPECTATE_INFO, this._boundOnSpectateInfo);
+        this._networkManager.registerMessageHandler(MessageType.SPECTATE_FAILED, this._boundOnSpectateClosed);
+        this._networkManager.registerMessageHandler(MessageType.SPECTATE_ENDED, this._boundOnSpectateClosed);
         
-        // 注册帧同步回调
+        // 注册帧同步回调，以及模拟之后执行的客户端系统
         this._frameSyncManager.registerFrameCallback(this._boundOnFrameUpdate);
+        if (this._clientSystems.length === 0) {
+            this._clientSystems = this.createClientSystems();
+        }
+        this._clientSystems.forEach(system => {
+            if (!this._simulation.hasSystem(system.name)) {
+                this._simulation.addSystem(system);
+            }
+        });
+        this._frameSyncManager.setSnapshotProvider(this);
         
         // 获取我的玩家ID
         this._myPlayerId = this._networkManager.playerId;
@@ -105,11 +199,27 @@ export class GameManager {
         if (this._networkManager) {
             this._networkManager.unregisterMessageHandler(MessageType.ROOM_INFO, this._boundOnRoomInfo);
             this._networkManager.unregisterMessageHandler(MessageType.GAME_START, this._boundOnGameStart);
+            this._networkManager.unregisterMessageHandler(MessageType.DESYNC, this._boundOnDesync);
+            this._networkManager.unregisterMessageHandler(MessageType.SNAPSHOT_REQUEST, this._boundOnSnapshotRequest);
+            this._networkManager.unregisterMessageHandler(MessageType.STATE_SNAPSHOT, this._boundOnStateSnapshot);
+            this._networkManager.unregisterMessageHandler(MessageType.REJOIN_FAILED, this._boundOnRejoinFailed);
+            this._networkManager.unregisterMessageHandler(MessageType.JOIN_FAILED, this._boundOnJoinFailed);
+            this._networkManager.unregisterMessageHandler(MessageType.GAME_RESULT, this._boundOnGameResult);
+            this._networkManager.unregisterMessageHandler(MessageType.RESULT_REJECTED, this._boundOnResultRejected);
+            this._networkManager.unregisterMessageHandler(MessageType.PAUSE_VOTE, this._boundOnPauseVote);
+            this._networkManager.unregisterMessageHandler(MessageType.GAME_PAUSED, this._boundOnGamePaused);
+            this._networkManager.unregisterMessageHandler(MessageType.RESUME_COUNTDOWN, this._boundOnResumeCountdown);
+            this._networkManager.unregisterMessageHandler(MessageType.GAME_RESUMED, this._boundOnGameResumed);
+            this._networkManager.unregisterMessageHandler(MessageType.SPECTATE_INFO, this._boundOnSpectateInfo);
+            this._networkManager.unregisterMessageHandler(MessageType.SPECTATE_FAILED, this._boundOnSpectateClosed);
+            this._networkManager.unregisterMessageHandler(MessageType.SPECTATE_ENDED, this._boundOnSpectateClosed);
         }
         
         if (this._frameSyncManager) {
             this._frameSyncManager.unregisterFrameCallback(this._boundOnFrameUpdate);
+            this._frameSyncManager.setSnapshotProvider(null);
         }
+        this._clientSystems.forEach(system => this._simulation.removeSystem(system.name));
     }
 
     /**
@@ -123,20 +233,31 @@ export class GameManager {
         this._roomId = '';
         this._ownerId = ''; // 重置房主ID
         this._gameStartTime = 0;
+        this._pauseVote = null;
+        this._resumeAt = 0;
+        this._spectatorCount = 0;
+        this.setSpectator(false);
         
-        // 重置分数
-        this.resetScores();
-        
-        // 重置随机数生成器
-        this._randomGenerator.setSeed(1);
+        // 重置模拟状态（分数、随机数生成器、小球实体）
+        this._simulation.reset();
         
         // 清理所有小球节点
+        this.clearBalls();
+    }
+
+    /**
+     * 销毁所有小球节点，并清除已绘制的食物
+     */
+    private clearBalls(): void {
         this._balls.forEach(ball => {
             if (ball.node) {
                 ball.node.destroy();
             }
         });
         this._balls.clear();
+        if (this._pelletView && this._pelletView.isValid) {
+            this._pelletView.clear();
+        }
     }
 
     /**
@@ -148,11 +269,11 @@ export class GameManager {
 
     /**
      * 设置游戏区域节点
+     * 场地大小由对局配置决定，不读取节点自身的尺寸
      */
     public setGameArea(gameArea: Node): void {
         this.gameArea = gameArea;
-        this.gameAreaWidth = this.gameArea.getComponent(UITransform).width;
-        this.gameAreaHeight = this.gameArea.getComponent(UITransform).height;
+        this.fitGameArea();
     }
 
     /**
@@ -163,29 +284,35 @@ export class GameManager {
     }
 
     /**
-     * 设置游戏配置
+     * 应用对局配置（服务器在第0帧之前下发），同步逻辑帧率、场地大小和规则
      */
-    public setGameConfig(config: {
-        maxPlayers?: number;
-        gameAreaWidth?: number;
-        gameAreaHeight?: number;
-        ballMinRadius?: number;
-        ballMaxRadius?: number;
-    }): void {
-        if (config.maxPlayers !== undefined) {
-            this.maxPlayers = config.maxPlayers;
-        }
-        if (config.gameAreaWidth !== undefined) {
-            this.gameAreaWidth = config.gameAreaWidth;
-        }
-        if (config.gameAreaHeight !== undefined) {
-            this.gameAreaHeight = config.gameAreaHeight;
+    public setMatchConfig(config: MatchConfigOverrides): void {
+        this._matchConfig = mergeMatchConfig(this._matchConfig, config);
+        this._simulation.setConfig(this._matchConfig);
+        if (this._frameSyncManager) {
+            this._frameSyncManager.setFrameRate(this._matchConfig.frameRate);
         }
-        if (config.ballMinRadius !== undefined) {
-            this.ballMinRadius = config.ballMinRadius;
+        this.fitGameArea();
+        Logger.log('GameManager', '应用对局配置', this._matchConfig);
+    }
+
+    /**
+     * 获取当前对局配置
+     */
+    public getMatchConfig(): MatchConfig {
+        return mergeMatchConfig(this._matchConfig);
+    }
+
+    /**
+     * 让游戏区域节点与对局配置的场地大小一致
+     */
+    private fitGameArea(): void {
+        if (!this.gameArea) {
+            return;
         }
-        if (config.ballMaxRadius !== undefined) {
-            this.ballMaxRadius = config.ballMaxRadius;
+        const transform = this.gameArea.getComponent(UITransform);
+        if (transform) {
+            transform.setContentSize(this._matchConfig.arenaWidth, this._matchConfig.arenaHeight);
         }
     }
 
@@ -235,6 +362,64 @@ export class GameManager {
         });
     }
 
+    /**
+     * 以观战者身份进入房间，不指定房间时由服务器选择一个正在对局的房间
+     */
+    public spectateRoom(roomId: string = ''): void {
+        if (this.isInGame && !this._isSpectator) {
+            console.warn('游戏进行中，无法观战');
+            return;
+        }
+        this._networkManager.spectateRoom(roomId);
+    }
+
+    /**
+     * 进入或退出观战模式
+     */
+    private setSpectator(spectator: boolean, delayFrames: number = 0): void {
+        this._isSpectator = spectator;
+        if (this._frameSyncManager) {
+            this._frameSyncManager.setSpectating(spectator, delayFrames);
+        }
+    }
+
+    /**
+     * 开始观战：服务器下发房间、玩家列表、对局配置和观战延迟
+     * 对局进行中时随后会收到从第0帧开始的状态快照
+     */
+    private onSpectateInfo(message: any): void {
+        const spectateData = message.data;
+        Logger.log('GameManager', `观战房间 ${spectateData.roomId}, 延迟 ${spectateData.delayFrames} 帧`);
+        this.stopReplay();
+        this._frameSyncManager.stopFrameSync();
+        this.clearBalls();
+        this._players.clear();
+        this._gameState = GameState.WAITING;
+        this.setSpectator(true, spectateData.delayFrames);
+        if (spectateData.matchConfig) {
+            this.setMatchConfig(spectateData.matchConfig);
+        }
+        this.onRoomInfo(message);
+    }
+
+    /**
+     * 没有可观战的房间，或观战的房间已关闭
+     */
+    private onSpectateClosed(message: any): void {
+        if (!this._isSpectator) {
+            return;
+        }
+        Logger.warn('GameManager', `观战结束: 房间 ${message.data.roomId || '-'}`);
+        this._frameSyncManager.stopFrameSync();
+        this.clearBalls();
+        this._players.clear();
+        this._roomId = '';
+        this._ownerId = '';
+        this._spectatorCount = 0;
+        this._gameState = GameState.WAITING;
+        this.setSpectator(false);
+    }
+
     /**
      * 处理房间信息
      */
@@ -242,6 +427,11 @@ export class GameManager {
         const roomData = message.data;
         this._roomId = roomData.roomId;
         this._ownerId = roomData.ownerId;
+        this._spectatorCount = roomData.spectatorCount || 0;
+        // 已改为以玩家身份加入房间
+        if (this._isSpectator && !this._networkManager.isSpectator) {
+            this.setSpectator(false);
+        }
         
         const serverPlayers = new Map<string, any>();
         if (roomData.players) {
@@ -273,21 +463,230 @@ export class GameManager {
      * 处理游戏开始消息
      */
     private onGameStart(message: any): void {
+        if (this._isReplayMode) {
+            return;
+        }
         const gameStartData = message.data;
         Logger.debug('GameManager', 'onGameStart received', gameStartData);
         
         this._gameState = GameState.PLAYING;
         this._gameStartTime = gameStartData.timestamp;
         
-        // 使用服务器提供的种子初始化随机数生成器
-        this._randomGenerator.setSeed(gameStartData.randomSeed);
-        
-        // 重置分数
-        this.resetScores();
+        this._pendingHashes.clear();
+        this._stateDumps.clear();
+        this._officialResult = null;
+        this._pauseVote = null;
+        this._resumeAt = 0;
 
-        // 为所有玩家创建小球
-        this.createPlayerBalls();
-        
+        // 在第0帧之前应用服务器下发的对局配置，保证各端与服务器模拟一致
+        if (gameStartData.matchConfig) {
+            this.setMatchConfig(gameStartData.matchConfig);
+        }
+
+        // 使用服务器提供的种子开始模拟，并为所有玩家创建小球
+        this.startSimulation(gameStartData.randomSeed);
+
+        // 录制本局的帧数据
+        this._frameSyncManager.startRecording({
+            roomId: this._roomId,
+            randomSeed: gameStartData.randomSeed,
+            matchConfig: this.getMatchConfig(),
+            players: Array.from(this._players.values()).map(p => ({ playerId: p.playerId, nickname: p.nickname }))
+        });
+    }
+
+    /**
+     * 服务器请求本端提供状态快照（有玩家断线重连或中途加入）
+     */
+    private onSnapshotRequest(message: any): void {
+        if (!this.isInGame || this._isReplayMode) {
+            return;
+        }
+        const snapshot = this._frameSyncManager.getConfirmedSnapshot();
+        if (!snapshot) {
+            // 服务器等待超时后会让对方从第0帧追帧
+            return;
+        }
+        this._networkManager.sendMessage({
+            type: MessageType.STATE_SNAPSHOT,
+            data: {
+                requestId: message.data.requestId,
+                frameId: snapshot.frameId,
+                state: snapshot.state
+            }
+        });
+    }
+
+    /**
+     * 收到状态快照：重建游戏状态，然后追帧到服务器当前帧
+     */
+    private onStateSnapshot(message: any): void {
+        if (this._isReplayMode) {
+            return;
+        }
+        const snapshotData = message.data;
+        Logger.log('GameManager', `收到状态快照: 帧 ${snapshotData.frameId}, 历史帧 ${snapshotData.frames.length} 个`);
+
+        // 断线期间可能有玩家离开，玩家列表以快照为准重建
+        this.clearBalls();
+        this._players.clear();
+        this._roomId = snapshotData.roomId;
+        this._gameState = GameState.PLAYING;
+        this._pendingHashes.clear();
+        this._stateDumps.clear();
+        this._officialResult = null;
+        if (snapshotData.matchConfig) {
+            this.setMatchConfig(snapshotData.matchConfig);
+        }
+
+        if (snapshotData.state) {
+            snapshotData.players.forEach((playerData: any) => this.addPlayer(playerData));
+            this.loadState(snapshotData.state);
+        } else {
+            // 没有可用的快照：按游戏开始时的玩家和种子重建初始状态，再从第0帧追帧
+            snapshotData.startPlayers.forEach((playerData: any) => this.addPlayer(playerData));
+            this.startSimulation(snapshotData.randomSeed);
+            snapshotData.players.forEach((playerData: any) => this.addPlayer(playerData));
+        }
+
+        this._frameSyncManager.startCatchUp(snapshotData.frameId, snapshotData.frames);
+
+        // 房间已暂停：追帧到暂停帧后停下
+        if (snapshotData.pauseFrame !== null && snapshotData.pauseFrame !== undefined) {
+            this._gameState = GameState.PAUSED;
+            this._frameSyncManager.pauseAtFrame(snapshotData.pauseFrame);
+        }
+    }
+
+    /**
+     * 重连失败，席位已被服务器移除
+     */
+    private onRejoinFailed(message: any): void {
+        Logger.warn('GameManager', `重连房间 ${message.data.roomId} 失败，席位已失效`);
+        this._frameSyncManager.stopFrameSync();
+        this.clearBalls();
+        this._players.clear();
+        this._roomId = '';
+        this._ownerId = '';
+        this._gameState = GameState.WAITING;
+    }
+
+    /**
+     * 加入房间失败，房间人数已满
+     */
+    private onJoinFailed(message: any): void {
+        Logger.warn('GameManager', `加入房间 ${message.data.roomId} 失败: ${message.data.reason}`);
+    }
+
+    /**
+     * 收到服务器权威模拟判定的对局结果
+     */
+    private onGameResult(message: any): void {
+        if (this._isReplayMode) {
+            return;
+        }
+        this._officialResult = message.data;
+        Logger.log('GameManager', `服务器公布对局结果: 帧 ${this._officialResult.frameId}, 获胜者: ${this._officialResult.winnerId || '无'}`, this._officialResult.scores);
+    }
+
+    /**
+     * 本地上报的对局结果被服务器拒绝，以服务器结果为准
+     */
+    private onResultRejected(message: any): void {
+        const rejectData = message.data;
+        Logger.error('GameManager', '本地对局结果与服务器不一致，以服务器结果为准。本地:', rejectData.reported, '服务器:', rejectData.result);
+        if (rejectData.result) {
+            this._officialResult = rejectData.result;
+        }
+    }
+
+    /**
+     * 获取服务器公布的本局结果，未公布时为 null
+     */
+    public getOfficialResult(): MatchResult | null {
+        return this._officialResult;
+    }
+
+    /**
+     * 根据状态快照恢复模拟并创建小球（断线重连或中途加入）
+     */
+    private loadState(state: SimulationState): void {
+        this._simulation.setConfig(this._matchConfig);
+        this._simulation.restoreState(state);
+        this.syncBallViews();
+        this.syncPelletView();
+    }
+
+    /**
+     * 回放录像，不需要连接服务器
+     */
+    public playReplay(replay: ReplayData): void {
+        if (this._gameState === GameState.PLAYING && !this._isReplayMode) {
+            console.warn('游戏进行中，无法回放录像');
+            return;
+        }
+        this.stopReplay();
+        this.clearBalls();
+        this._players.clear();
+
+        this._isReplayMode = true;
+        this._roomId = replay.roomId;
+        this.setMatchConfig(replay.matchConfig);
+        replay.players.forEach(player => this.addPlayer(player));
+
+        this._gameState = GameState.PLAYING;
+        this.startSimulation(replay.randomSeed);
+
+        Logger.log('GameManager', `回放录像: 房间 ${replay.roomId}, 玩家 ${replay.players.length} 人, ${replay.frames.length} 帧`);
+        this._frameSyncManager.startPlayback(replay, () => {
+            this._isReplayMode = false;
+        });
+    }
+
+    /**
+     * 从字符串加载并回放录像
+     */
+    public playReplayFromString(json: string): void {
+        try {
+            this.playReplay(ReplayRecorder.parse(json));
+        } catch (error) {
+            console.error('加载录像失败:', error);
+        }
+    }
+
+    /**
+     * 停止回放录像
+     */
+    public stopReplay(): void {
+        if (!this._isReplayMode) {
+            return;
+        }
+        this._frameSyncManager.stopPlayback();
+        this._isReplayMode = false;
+        this._gameState = GameState.WAITING;
+        this.clearBalls();
+        this._players.clear();
+    }
+
+    /**
+     * 获取最近一局的录像
+     */
+    public getLastReplay(): ReplayData {
+        return this._lastReplay;
+    }
+
+    /**
+     * 导出最近一局的录像（用于问题反馈）
+     */
+    public exportLastReplay(): string {
+        return this._lastReplay ? ReplayRecorder.serialize(this._lastReplay) : '';
+    }
+
+    /**
+     * 是否正在回放录像
+     */
+    public get isReplayMode(): boolean {
+        return this._isReplayMode;
     }
 
     /**
@@ -306,114 +705,176 @@ export class GameManager {
     // }
 
     /**
-     * 帧更新处理
+     * 帧更新处理：推进模拟，客户端的帧末处理作为 POST_FRAME 系统在模拟管线中执行
      */
     private onFrameUpdate(frameData: FrameData, fixedDeltaTime: number): void {
-        // 让所有小球处理帧数据
-        this._balls.forEach(ball => {
-            if (ball.isAlive) {
-                ball.processFrameData(frameData, fixedDeltaTime);
-            }
-        });
-        
-        // 处理碰撞检测
-        this.handleCollisions();
-        
-        // 清理死亡的球
-        this.cleanupDeadBalls();
+        this._simulation.step(frameData);
     }
 
     /**
-     * 处理所有球之间的碰撞
+     * 创建客户端在模拟之后执行的系统（只读取模拟状态，不参与确定性逻辑）
      */
-    private handleCollisions(): void {
-        const aliveBalls = Array.from(this._balls.values()).filter(ball => ball.isAlive);
-        
-        // 遍历所有球的组合，检测碰撞
-        for (let i = 0; i < aliveBalls.length; i++) {
-            for (let j = i + 1; j < aliveBalls.length; j++) {
-                const ballA = aliveBalls[i];
-                const ballB = aliveBalls[j];
-                
-                // 检测并处理碰撞
-                if (ballA.checkCollisionWith(ballB)) {
-                    ballA.handleCollisionWith(ballB);
-                    
-                    // 碰撞后需要重新检查存活状态
-                    if (!ballA.isAlive || !ballB.isAlive) {
-                        break;
-                    }
+    private createClientSystems(): GameSystem[] {
+        return [
+            {
+                // 生成或销毁小球视图，并同步实体状态
+                name: 'client.ballViews',
+                phase: SimulationPhase.POST_FRAME,
+                priority: 0,
+                execute: (context: SimulationContext) => {
+                    this.syncBallViews();
+                    this._balls.forEach(ball => ball.syncFromEntity(context.fixedDeltaTime));
                 }
+            },
+            {
+                // 同步食物视图（食物变化时才重绘）
+                name: 'client.pelletView',
+                phase: SimulationPhase.POST_FRAME,
+                priority: 0,
+                execute: () => this.syncPelletView()
+            },
+            {
+                // 计算并上报状态哈希
+                name: 'client.stateHash',
+                phase: SimulationPhase.POST_FRAME,
+                priority: 10,
+                execute: (context: SimulationContext) => this.updateStateHash(context.frameData)
+            },
+            {
+                // 检查游戏是否结束
+                name: 'client.gameEnd',
+                phase: SimulationPhase.POST_FRAME,
+                priority: 20,
+                execute: (context: SimulationContext) => this.checkGameEnd(context.frameData)
             }
-        }
+        ];
     }
 
     /**
-     * 清理死亡的球
+     * 在校验帧上计算状态哈希，确认后上报服务器
+     * 预测帧可能被回滚重算，重算时会覆盖之前的哈希
      */
-    private cleanupDeadBalls(): void {
-        const deadBalls: string[] = [];
-        
-        this._balls.forEach((ball, playerId) => {
-            if (!ball.isAlive) {
-                deadBalls.push(playerId);
+    private updateStateHash(frameData: FrameData): void {
+        if (this._isReplayMode || this._isSpectator || this.checksumInterval <= 0 || !this.isInGame) {
+            return;
+        }
+
+        if (frameData.frameId % this.checksumInterval === 0) {
+            const state = this.saveState();
+            const hash = this.computeStateHash(frameData.frameId);
+            this._pendingHashes.set(frameData.frameId, hash);
+            this._stateDumps.set(frameData.frameId, { hash: hash, state: state });
+            if (this._stateDumps.size > this._maxStateDumps) {
+                this._stateDumps.delete(this._stateDumps.keys().next().value);
             }
-        });
-        
-        // 延迟清理，避免在遍历时修改集合
-        deadBalls.forEach(playerId => {
-            const ball = this._balls.get(playerId);
-            if (ball) {
-                ball.node.destroy();
-                this._balls.delete(playerId);
-                Logger.log('GameManager', `清理死亡的球: ${playerId}`);
+        }
+
+        // 已确认的帧不会再被重算，可以上报
+        const confirmedFrame = this._frameSyncManager.confirmedFrame;
+        this._pendingHashes.forEach((hash, frameId) => {
+            if (frameId < confirmedFrame) {
+                this._networkManager.sendStateHash(frameId, hash);
+                this._pendingHashes.delete(frameId);
             }
         });
-        
-        // 检查游戏是否结束
-        this.checkGameEnd();
+    }
+
+    /**
+     * 计算当前确定性状态的哈希值
+     */
+    public computeStateHash(frameId: number): number {
+        return this._simulation.computeHash(frameId);
+    }
+
+    /**
+     * 处理服务器的不同步通知，输出本地在分歧帧的状态转储
+     */
+    private onDesync(message: any): void {
+        const desyncData = message.data;
+        const dump = this._stateDumps.get(desyncData.frameId);
+        Logger.error('GameManager', `检测到状态不同步！首个分歧帧: ${desyncData.frameId}, 各客户端哈希:`, desyncData.hashes);
+        if (dump) {
+            Logger.error('GameManager', `本地帧 ${desyncData.frameId} 状态转储 (哈希 ${dump.hash}):`, JSON.stringify(dump.state));
+        } else {
+            Logger.error('GameManager', `本地已没有帧 ${desyncData.frameId} 的状态转储`);
+        }
+    }
+
+    /**
+     * 获取指定校验帧的状态转储
+     */
+    public getStateDump(frameId: number): { hash: number, state: SimulationState } | null {
+        return this._stateDumps.get(frameId) || null;
+    }
+
+    /**
+     * 保存确定性状态（预测回滚）
+     */
+    public saveState(): SimulationState {
+        return this._simulation.saveState();
+    }
+
+    /**
+     * 恢复确定性状态（预测回滚）
+     */
+    public restoreState(state: SimulationState): void {
+        this._simulation.restoreState(state);
+        this.syncBallViews();
+        this.syncPelletView();
     }
 
     /**
      * 检查游戏是否结束
+     * 预测帧的结果可能被回滚，只有结束帧已被服务器确认时才结束游戏
      */
-    private checkGameEnd(): void {
-        // 单人模式下不检查游戏结束
-        if (this._players.size === 1) {
+    private checkGameEnd(frameData: FrameData): void {
+        if (!this._simulation.isGameOver || !this.isInGame) {
             return;
         }
-        
-        const aliveBalls = Array.from(this._balls.values()).filter(ball => ball.isAlive);
-        
-        if (aliveBalls.length <= 1) {
-            // 游戏结束
-            const winner = aliveBalls.length === 1 ? aliveBalls[0] : null;
-            this.endGame(winner);
+        if (frameData.predicted && this._simulation.gameOverFrame >= this._frameSyncManager.confirmedFrame) {
+            return;
         }
+        this.endGame(this._simulation.winnerId);
     }
 
     /**
      * 结束游戏
      */
-    private endGame(winner: Ball | null): void {
+    private endGame(winnerId: string | null): void {
         this._gameState = GameState.FINISHED;
         
         // 停止帧同步
-        this._frameSyncManager.stopFrameSync();
+        if (this._isReplayMode) {
+            this._frameSyncManager.stopPlayback();
+            this._isReplayMode = false;
+        } else {
+            this._frameSyncManager.stopFrameSync();
+            const replay = this._frameSyncManager.stopRecording();
+            if (replay) {
+                this._lastReplay = replay;
+            }
+
+            // 上报本地模拟的结果，由服务器校验（观战者不上报）
+            if (!this._isSpectator) {
+                this._networkManager.sendMessage({
+                    type: MessageType.RESULT_REPORT,
+                    data: {
+                        frameId: this._simulation.gameOverFrame,
+                        winnerId: winnerId,
+                        scores: Array.from(this._simulation.getScores().entries())
+                    } as MatchResult
+                });
+            }
+        }
         
-        if (winner) {
-            Logger.log('GameManager', `游戏结束！获胜者: ${winner.playerId}`);
+        if (winnerId) {
+            Logger.log('GameManager', `游戏结束！获胜者: ${winnerId}`);
         } else {
             Logger.log('GameManager', '游戏结束！平局');
         }
         
         // 清理资源
-        this._balls.forEach(ball => {
-            if (ball.node) {
-                ball.node.destroy();
-            }
-        });
-        this._balls.clear();
+        this.clearBalls();
         this._players.clear();
         
         // 可以在这里添加游戏结束的UI显示
@@ -455,105 +916,86 @@ export class GameManager {
     }
 
     /**
-     * 创建玩家小球
+     * 按玩家顺序开始模拟，并为所有玩家创建小球
      */
-    private createPlayerBalls(): void {
-        if (!this.ballPrefab) {
-            console.error('小球预制体未设置');
-            return;
-        }
-        
-        let index = 0;
-        this._players.forEach(player => {
-            // 创建小球节点
-            const ballNode = instantiate(this.ballPrefab);
-            const ball = ballNode.getComponent(Ball);
-            
-            if (ball) {
-                // 设置小球属性
-                ball.playerId = player.playerId;
-                ball.setColor(player.color);
-                
-                // 设置随机大小
-                const randomRadius = this._randomGenerator.nextRange(this.ballMinRadius, this.ballMaxRadius);
-                ball.setRadius(randomRadius);
-                Logger.log('GameManager', `玩家 ${player.playerId} 的球随机大小: ${randomRadius.toFixed(2)} (范围: ${this.ballMinRadius}-${this.ballMaxRadius})`);
-                
-                // 设置初始位置（传递球的半径）
-                const position = this.getSpawnPosition(index, randomRadius);
-                ball.setPosition(position);
-                
-                // 添加到游戏区域
-                this.gameArea.addChild(ballNode);
-                
-                // 记录小球和玩家信息
-                this._balls.set(player.playerId, ball);
-                player.ballNode = ballNode;
-            }
-            
-            index++;
-        });
+    private startSimulation(randomSeed: number): void {
+        this._simulation.setConfig(this._matchConfig);
+        this._simulation.start(randomSeed, Array.from(this._players.keys()));
+        this.syncBallViews();
+        this.syncPelletView();
     }
 
     /**
-     * 获取出生位置
+     * 根据模拟中的小球实体生成或销毁小球视图
      */
-    private getSpawnPosition(index: number, ballRadius: number = 25): FixedVec2 {
-        const baseDistance = 80; // 基础距离
-        const minDistance = baseDistance + ballRadius * 2; // 根据球半径调整最小距离
-        const maxAttempts = 50; // 最大尝试次数
-        
-        // 计算可用的生成区域（考虑小球半径）
-        const spawnWidth = this.gameAreaWidth - ballRadius * 2;
-        const spawnHeight = this.gameAreaHeight - ballRadius * 2;
-        
-        // 尝试生成随机位置
-        for (let attempt = 0; attempt < maxAttempts; attempt++) {
-            // 使用确定性随机数生成器生成随机位置
-            const x = (this._randomGenerator.next() - 0.5) * spawnWidth;
-            const y = (this._randomGenerator.next() - 0.5) * spawnHeight;
-            const position = new FixedVec2(fromFloat(x), fromFloat(y));
-            
-            Logger.log('GameManager', `尝试生成位置 ${attempt}: (${x.toFixed(2)}, ${y.toFixed(2)}), 球半径: ${ballRadius.toFixed(2)}, 种子状态: ${this._randomGenerator.getSeed()}`);
-            
-            // 检查与已有小球的距离
-            let validPosition = true;
-            for (const existingBall of this._balls.values()) {
-                if (existingBall.isAlive) {
-                    const existingPos = existingBall.getPosition();
-                    const dx = position.x - existingPos.x;
-                    const dy = position.y - existingPos.y;
-                    const distanceSqr = dx * dx + dy * dy;
-                    
-                    // 计算两球半径之和加上额外间距
-                    const requiredDistance = ballRadius + existingBall.radius + baseDistance;
-                    const requiredDistanceSqr = fromFloat(requiredDistance * requiredDistance);
-                    
-                    if (distanceSqr < requiredDistanceSqr) {
-                        validPosition = false;
-                        break;
-                    }
-                }
+    private syncBallViews(): void {
+        // 销毁已不在模拟中的小球（被吃掉，或回滚到其生成之前）
+        this._balls.forEach((ball, playerId) => {
+            const entity = this._simulation.getBall(playerId);
+            if (!entity || !entity.isAlive) {
+                ball.node.destroy();
+                this._balls.delete(playerId);
+                Logger.log('GameManager', `清理死亡的球: ${playerId}`);
+            } else if (ball.entity !== entity) {
+                // 回滚后实体已被重建
+                ball.bind(entity);
             }
-            
-            if (validPosition) {
-                Logger.log('GameManager', `成功生成位置 (${x.toFixed(2)}, ${y.toFixed(2)}), 尝试次数: ${attempt + 1}`);
-                return position;
+        });
+
+        this._simulation.balls.forEach(entity => {
+            if (entity.isAlive && !this._balls.has(entity.playerId)) {
+                this.createBallView(entity);
             }
+        });
+    }
+
+    /**
+     * 同步食物视图，首次调用时在游戏区域最底层创建视图节点
+     */
+    private syncPelletView(): void {
+        if (!this.gameArea) {
+            return;
         }
-        
-        // 如果随机生成失败，使用固定位置作为备用
-        const safeMargin = ballRadius + 50; // 确保球不会超出边界
-        const fallbackPositions = [
-            new FixedVec2(fromFloat(-Math.min(200, this.gameAreaWidth / 2 - safeMargin)), fromFloat(0)),
-            new FixedVec2(fromFloat(Math.min(200, this.gameAreaWidth / 2 - safeMargin)), fromFloat(0)),
-            new FixedVec2(fromFloat(0), fromFloat(Math.min(200, this.gameAreaHeight / 2 - safeMargin))),
-            new FixedVec2(fromFloat(0), fromFloat(-Math.min(200, this.gameAreaHeight / 2 - safeMargin)))
-        ];
-        
-        const fallbackPosition = fallbackPositions[index % fallbackPositions.length];
-        Logger.log('GameManager', `使用回退位置 (${toFloat(fallbackPosition.x).toFixed(2)}, ${toFloat(fallbackPosition.y).toFixed(2)}), 球半径: ${ballRadius.toFixed(2)}`);
-        return fallbackPosition;
+        if (!this._pelletView || !this._pelletView.isValid || this._pelletView.node.parent !== this.gameArea) {
+            const pelletNode = new Node('Pellets');
+            this.gameArea.addChild(pelletNode);
+            pelletNode.setSiblingIndex(0); // 绘制在小球下面
+            this._pelletView = pelletNode.addComponent(PelletView);
+        }
+        this._pelletView.bind(this._simulation.pellets, this._matchConfig.rules.pelletRadius);
+    }
+
+    /**
+     * 为小球实体创建视图节点并加入游戏区域
+     */
+    private createBallView(entity: BallEntity): Ball | null {
+        if (!this.ballPrefab) {
+            console.error('小球预制体未设置');
+            return null;
+        }
+
+        // 中途加入的玩家可能还没有收到房间信息
+        if (!this._players.has(entity.playerId)) {
+            this.addPlayer({ playerId: entity.playerId });
+        }
+        const player = this._players.get(entity.playerId);
+
+        // 创建小球节点
+        const ballNode = instantiate(this.ballPrefab);
+        const ball = ballNode.getComponent(Ball);
+        if (!ball) {
+            return null;
+        }
+
+        // 设置小球属性
+        ball.setColor(player.color);
+        this.gameArea.addChild(ball.node);
+        ball.bind(entity);
+
+        // 记录小球和玩家信息
+        this._balls.set(player.playerId, ball);
+        player.ballNode = ball.node;
+        return ball;
     }
 
     /**
@@ -575,6 +1017,13 @@ export class GameManager {
         return this._gameState;
     }
 
+    /**
+     * 是否处于对局中（进行中，或已暂停但仍在执行暂停帧之前的帧）
+     */
+    private get isInGame(): boolean {
+        return this._gameState === GameState.PLAYING || this._gameState === GameState.PAUSED;
+    }
+
     /**
      * 获取玩家数量
      */
@@ -589,6 +1038,34 @@ export class GameManager {
         return this._balls.get(this._myPlayerId) || null;
     }
 
+    /**
+     * 获取指定玩家的小球
+     */
+    public getBall(playerId: string): Ball | null {
+        return this._balls.get(playerId) || null;
+    }
+
+    /**
+     * 获取场上小球所属的玩家ID（按玩家加入顺序）
+     */
+    public get ballPlayerIds(): string[] {
+        return Array.from(this._players.keys()).filter(playerId => this._balls.has(playerId));
+    }
+
+    /**
+     * 是否以观战者身份在房间中
+     */
+    public get isSpectator(): boolean {
+        return this._isSpectator;
+    }
+
+    /**
+     * 获取房间内的观战人数
+     */
+    public get spectatorCount(): number {
+        return this._spectatorCount;
+    }
+
     /**
      * 获取房主ID
      */
@@ -598,24 +1075,114 @@ export class GameManager {
 
     /**
      * 暂停游戏
+     * 暂停由服务器统一执行：多人时发起投票，其他玩家已发起投票时投同意票
      */
     public pauseGame(): void {
-        if (this._gameState === GameState.PLAYING) {
-            this._gameState = GameState.PAUSED;
-            this._frameSyncManager.stopFrameSync();
+        if (this._gameState !== GameState.PLAYING || this._isReplayMode || this._isSpectator) {
+            return;
+        }
+        if (this._pauseVote && this._pauseVote.votes[this._myPlayerId] === undefined) {
+            this.votePause(true);
+            return;
+        }
+        this._networkManager.sendMessage({
+            type: MessageType.PAUSE_REQUEST,
+            data: {}
+        });
+    }
+
+    /**
+     * 对其他玩家发起的暂停投票表态
+     */
+    public votePause(agree: boolean): void {
+        if (!this._pauseVote) {
+            return;
         }
+        this._networkManager.sendMessage({
+            type: MessageType.PAUSE_VOTE,
+            data: {
+                voteId: this._pauseVote.voteId,
+                agree: agree
+            }
+        });
     }
 
     /**
-     * 恢复游戏
+     * 恢复游戏，服务器广播倒计时后所有客户端同时恢复
      */
     public resumeGame(): void {
-        if (this._gameState === GameState.PAUSED) {
-            this._gameState = GameState.PLAYING;
-            this._frameSyncManager.startFrameSync();
+        if (this._gameState !== GameState.PAUSED || this._resumeAt > 0 || this._isSpectator) {
+            return;
+        }
+        this._networkManager.sendMessage({
+            type: MessageType.RESUME_REQUEST,
+            data: {}
+        });
+    }
+
+    /**
+     * 暂停投票进度或结果
+     */
+    private onPauseVote(message: any): void {
+        const vote: PauseVoteInfo = message.data;
+        if (vote.status === 'pending') {
+            this._pauseVote = vote;
+            Logger.log('GameManager', `玩家 ${vote.requesterId} 请求暂停, 同意 ${Object.keys(vote.votes).filter(id => vote.votes[id]).length}/${vote.required}`);
+        } else {
+            this._pauseVote = null;
+            Logger.log('GameManager', `暂停投票${vote.status === 'passed' ? '通过' : '未通过'}`);
         }
     }
 
+    /**
+     * 房间在指定帧暂停
+     */
+    private onGamePaused(message: any): void {
+        if (this._gameState !== GameState.PLAYING) {
+            return;
+        }
+        this._gameState = GameState.PAUSED;
+        this._pauseVote = null;
+        this._frameSyncManager.pauseAtFrame(message.data.frameId);
+    }
+
+    /**
+     * 恢复倒计时开始
+     */
+    private onResumeCountdown(message: any): void {
+        this._resumeAt = Date.now() + message.data.countdown * 1000;
+        Logger.log('GameManager', `${message.data.countdown} 秒后恢复游戏`);
+    }
+
+    /**
+     * 房间恢复运行
+     */
+    private onGameResumed(message: any): void {
+        if (this._gameState !== GameState.PAUSED) {
+            return;
+        }
+        this._gameState = GameState.PLAYING;
+        this._resumeAt = 0;
+        this._frameSyncManager.resumeFromPause();
+    }
+
+    /**
+     * 获取进行中的暂停投票
+     */
+    public get pauseVote(): PauseVoteInfo | null {
+        return this._pauseVote;
+    }
+
+    /**
+     * 获取恢复倒计时剩余秒数，没有倒计时时为 0
+     */
+    public get resumeCountdown(): number {
+        if (this._resumeAt <= 0) {
+            return 0;
+        }
+        return Math.max(0, Math.ceil((this._resumeAt - Date.now()) / 1000));
+    }
+
     /**
      * 检查是否已初始化
      */
@@ -641,10 +1208,18 @@ export class GameManager {
     }
 
     /**
-     * 获取确定性随机数生成器
+     * 获取随机子流
+     * 返回的是模拟正在使用的子流，只读取结果时请先 fork()，避免改变之后的随机序列
      */
-    public getRandomGenerator(): DeterministicRandom {
-        return this._randomGenerator;
+    public getRandomGenerator(stream: string = RandomStream.SPAWN): DeterministicRandom {
+        return this._simulation.getRandom(stream);
+    }
+
+    /**
+     * 获取游戏模拟
+     */
+    public get simulation(): GameSimulation {
+        return this._simulation;
     }
 
     /**
@@ -658,34 +1233,21 @@ export class GameManager {
      * 为玩家增加积分（本地确定性）
      */
     public addScore(playerId: string, score: number): void {
-        const currentScore = this.getPlayerScore(playerId);
-        this._playerScores.set(playerId, currentScore + score);
-        Logger.log('GameManager', `玩家 ${playerId} 获得积分: ${score}，总积分: ${currentScore + score}`);
+        this._simulation.addScore(playerId, score);
     }
 
     /**
      * 获取玩家积分
      */
     public getPlayerScore(playerId: string): number {
-        return this._playerScores.get(playerId) || 0;
+        return this._simulation.getScore(playerId);
     }
 
     /**
      * 获取所有玩家积分
      */
     public getAllPlayerScores(): Map<string, number> {
-        return new Map(this._playerScores);
-    }
-
-    /**
-     * 重置所有玩家积分
-     */
-    private resetScores(): void {
-        this._playerScores.clear();
-        this._players.forEach(player => {
-            this._playerScores.set(player.playerId, 0);
-        });
-        Logger.debug('GameManager', '玩家分数已重置');
+        return this._simulation.getScores();
     }
 
     /**
@@ -705,30 +1267,183 @@ export class GameManager {
 
     /**
      * 测试确定性随机数生成器
+     * 期望值为已知正确的结果，任何平台上结果不一致都说明随机序列不再确定
+     * @returns 是否全部通过
      */
-    public testDeterministicRandom(): void {
+    public testDeterministicRandom(): boolean {
         console.log('=== 确定性随机数测试 ===');
-        
-        // 使用相同种子生成两个随机数生成器
-        const testSeed = 12345;
-        const rng1 = new DeterministicRandom(testSeed);
-        const rng2 = new DeterministicRandom(testSeed);
-        
-        // 生成10个随机数并比较
-        for (let i = 0; i < 10; i++) {
-            const num1 = rng1.next();
-            const num2 = rng2.next();
-            console.log(`序列 ${i}: ${num1.toFixed(6)} vs ${num2.toFixed(6)}, 相等: ${num1 === num2}`);
+        let failures = 0;
+        const expect = (name: string, actual: unknown, expected: unknown) => {
+            if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+                failures++;
+                console.error(`${name}: 期望 ${JSON.stringify(expected)}, 实际 ${JSON.stringify(actual)}`);
+            }
+        };
+        const take = (random: DeterministicRandom, count: number) => {
+            const values: number[] = [];
+            for (let i = 0; i < count; i++) {
+                values.push(random.nextUint32());
+            }
+            return values;
+        };
+
+        // 已知序列：状态 [1, 2, 3, 4] 为 xoshiro128** 参考实现的测试向量
+        const reference = new DeterministicRandom();
+        reference.setState([1, 2, 3, 4]);
+        expect('参考向量', take(reference, 4), [11520, 0, 5927040, 70819200]);
+        expect('seed 12345', take(new DeterministicRandom(12345), 4), [518667457, 440444462, 4232892992, 3757857622]);
+
+        // 保存与恢复状态
+        const random = new DeterministicRandom(12345);
+        take(random, 100);
+        const state = random.getState();
+        const expected = take(random, 10);
+        random.setState(state);
+        expect('setState', take(random, 10), expected);
+
+        // fork 得到的副本与原生成器序列相同，且互不影响
+        const fork = random.fork();
+        expect('fork', take(fork, 10), take(random, 10));
+
+        // 子流之间互不影响：多取一个出生随机数不改变道具子流
+        const streamsA = new RandomStreams();
+        const streamsB = new RandomStreams();
+        streamsA.reset(12345);
+        streamsB.reset(12345);
+        streamsA.get(RandomStream.SPAWN).nextUint32();
+        expect('子流独立', take(streamsA.get(RandomStream.PICKUP), 10), take(streamsB.get(RandomStream.PICKUP), 10));
+
+        // 子流状态保存与恢复
+        const saved = streamsA.saveState();
+        const spawnExpected = take(streamsA.get(RandomStream.SPAWN), 10);
+        streamsB.restoreState(12345, saved);
+        expect('子流恢复', take(streamsB.get(RandomStream.SPAWN), 10), spawnExpected);
+
+        // 范围与分布
+        let outOfRange = 0;
+        const counts = [0, 0, 0, 0, 0, 0];
+        for (let i = 0; i < 60000; i++) {
+            const value = random.nextInt(1, 6);
+            counts[value - 1]++;
+            const fixed = random.nextFixed();
+            if (fixed < 0 || fixed >= FIXED_ONE) {
+                outOfRange++;
+            }
         }
-        
-        // 测试当前游戏的随机数生成器
-        console.log('当前游戏随机种子:', this._randomGenerator.getSeed());
-        console.log('生成测试位置:');
-        for (let i = 0; i < 3; i++) {
-            const x = (this._randomGenerator.next() - 0.5) * 800;
-            const y = (this._randomGenerator.next() - 0.5) * 600;
-            console.log(`位置 ${i}: (${x.toFixed(2)}, ${y.toFixed(2)})`);
+        expect('nextFixed 范围', outOfRange, 0);
+        expect('nextInt 分布', counts.every(count => Math.abs(count - 10000) < 500), true);
+
+        // 只预览当前对局的出生序列，不扰动模拟
+        const preview = this.getRandomGenerator(RandomStream.SPAWN).fork();
+        console.log(`当前对局种子: ${this._simulation.randomSeed}, 出生子流接下来的值: ${take(preview, 3).join(', ')}`);
+
+        console.log(failures === 0 ? '确定性随机数测试全部通过' : `确定性随机数测试失败 ${failures} 项`);
+        return failures === 0;
+    }
+
+    /**
+     * 测试模拟的确定性：两个独立模拟与从快照恢复的模拟逐帧比较状态哈希，
+     * 最终哈希与已知结果比较，不同平台、不同 JS 引擎上结果都应一致
+     * 有意修改模拟规则后需要更新期望的最终哈希
+     * @returns 是否通过
+     */
+    public testSimulationDeterminism(): boolean {
+        console.log('=== 模拟确定性测试 ===');
+        const expectedHash = 3200403980;
+        const result = runDeterminismCheck();
+        if (!result.passed) {
+            console.error(`模拟确定性测试失败: 第 ${result.mismatchFrame} 帧状态哈希不一致`);
+            return false;
+        }
+        if (result.finalHash !== expectedHash) {
+            console.error(`模拟确定性测试失败: ${result.framesRun} 帧后状态哈希为 ${result.finalHash}, 期望 ${expectedHash}`);
+            return false;
         }
+        console.log(`模拟确定性测试通过, 共 ${result.framesRun} 帧, 最终哈希 ${result.finalHash}`);
+        return true;
+    }
+
+    /**
+     * 测试两球碰撞响应：重叠被分开、动量守恒、法线方向的相对速度按恢复系数反向
+     * @returns 是否全部通过
+     */
+    public testBallCollision(): boolean {
+        return runBallCollisionTest();
+    }
+
+    /**
+     * 测试惯性移动模型：加速到目标速度、停止后减速到 0、撞墙反弹的速度不会被输入立即抵消
+     * @returns 是否全部通过
+     */
+    public testMovementModel(): boolean {
+        return runMovementModelTest();
+    }
+
+    /**
+     * 测试与大小相关的规则：最大速度随半径降低，大球的质量逐渐衰减且不低于下限
+     * @returns 是否全部通过
+     */
+    public testSizeRules(): boolean {
+        return runSizeRulesTest();
+    }
+
+    /**
+     * 测试食物：相同种子放置的食物位置相同且都在场地内，吃掉后获得积分和质量，到期后在新位置重生
+     * @returns 是否全部通过
+     */
+    public testPellets(): boolean {
+        return runPelletTest(this.getMatchConfig());
+    }
+
+    /**
+     * 测试碰撞粗筛：空间哈希筛出并精确检测后的接触，与逐对比较所有球的结果和顺序都相同
+     * @param ballCount 每轮随机摆放的小球数量
+     * @returns 是否全部通过
+     */
+    public testBroadphase(ballCount: number = 300): boolean {
+        console.log('=== 碰撞粗筛测试 ===');
+        const random = new DeterministicRandom(20240615);
+        let failures = 0;
+        let bruteForceTime = 0;
+        let broadphaseTime = 0;
+
+        // 场地越来越小，最后一轮所有球挤在一起；半径从小球到接近上限的大球都有
+        [1000, 400, 100].forEach(halfSize => {
+            const balls: BallEntity[] = [];
+            for (let i = 0; i < ballCount; i++) {
+                const radius = random.nextInt(0, 9) === 0 ? random.nextRange(60, 160) : random.nextRange(5, 30);
+                const position = FixedVec2.fromFloat(random.nextRange(-halfSize, halfSize), random.nextRange(-halfSize, halfSize));
+                balls.push(new BallEntity(`ball_${i}`, fromFloat(radius), position));
+            }
+
+            let startTime = Date.now();
+            const expected: string[] = [];
+            for (let i = 0; i < balls.length; i++) {
+                for (let j = i + 1; j < balls.length; j++) {
+                    if (balls[i].checkCollisionWith(balls[j])) {
+                        expected.push(`${balls[i].playerId}-${balls[j].playerId}`);
+                    }
+                }
+            }
+            bruteForceTime += Date.now() - startTime;
+
+            startTime = Date.now();
+            const broadphase = new SpatialHash<BallEntity>(fromFloat(64));
+            balls.forEach(ball => broadphase.insert(ball, ball.getBounds()));
+            const actual = broadphase.queryPairs()
+                .filter(([a, b]) => a.checkCollisionWith(b))
+                .map(([a, b]) => `${a.playerId}-${b.playerId}`);
+            broadphaseTime += Date.now() - startTime;
+
+            if (actual.join(',') !== expected.join(',')) {
+                failures++;
+                console.error(`场地半宽 ${halfSize}: 粗筛得到 ${actual.length} 对接触, 逐对比较得到 ${expected.length} 对, 或顺序不同`);
+            }
+        });
+
+        console.log(`逐对比较耗时 ${bruteForceTime}ms, 空间哈希耗时 ${broadphaseTime}ms`);
+        console.log(failures === 0 ? '碰撞粗筛测试全部通过' : `碰撞粗筛测试失败 ${failures} 项`);
+        return failures === 0;
     }
 
     /**
@@ -740,7 +1455,7 @@ export class GameManager {
         console.log('是否为单人模式:', this.isSinglePlayerMode);
         console.log('玩家数量:', this._players.size);
         console.log('小球数量:', this._balls.size);
-        console.log('球大小范围:', `${this.ballMinRadius}-${this.ballMaxRadius}`);
+        console.log('球大小范围:', `${this._matchConfig.ballMinRadius}-${this._matchConfig.ballMaxRadius}`);
         
         // 显示当前球的大小信息
         this._balls.forEach((ball, playerId) => {
@@ -753,13 +1468,14 @@ export class GameManager {
      */
     public testRandomBallSize(): void {
         console.log('=== 随机球大小测试 ===');
-        console.log('当前随机种子:', this._randomGenerator.getSeed());
-        console.log('球大小范围:', `${this.ballMinRadius}-${this.ballMaxRadius}`);
+        console.log('当前对局种子:', this._simulation.randomSeed);
+        console.log('球大小范围:', `${this._matchConfig.ballMinRadius}-${this._matchConfig.ballMaxRadius}`);
         
-        // 生成10个测试大小
+        // 在出生子流的副本上生成10个测试大小，不影响模拟
+        const random = this.getRandomGenerator(RandomStream.SPAWN).fork();
         const testSizes = [];
         for (let i = 0; i < 10; i++) {
-            const size = this._randomGenerator.nextRange(this.ballMinRadius, this.ballMaxRadius);
+            const size = random.nextRange(this._matchConfig.ballMinRadius, this._matchConfig.ballMaxRadius);
             testSizes.push(size);
             console.log(`测试大小 ${i + 1}: ${size.toFixed(2)}`);
         }
@@ -771,4 +1487,165 @@ export class GameManager {
         
         console.log(`统计信息: 最小 ${minSize.toFixed(2)}, 最大 ${maxSize.toFixed(2)}, 平均 ${avgSize.toFixed(2)}`);
     }
+
+    /**
+     * 测试定点数三角函数和向量运算
+     * 期望值为已知正确的结果，任何平台上结果不一致都说明定点数运算不再确定
+     * @returns 是否全部通过
+     */
+    public testFixedPointMath(): boolean {
+        console.log('=== 定点数数学库测试 ===');
+        let failures = 0;
+        const expect = (name: string, actual: number, expected: number) => {
+            if (actual !== expected) {
+                failures++;
+                console.error(`${name}: 期望 ${expected}, 实际 ${actual}`);
+            }
+        };
+
+        // [角度, sin, cos]：sin 为奇函数、cos 为偶函数，0、π/2、π 处取精确值
+        const trigCases: [number, number, number][] = [
+            [0, 0, 65536], [32768, 31419, 57513], [65536, 55146, 35410], [51472, 46341, 46341],
+            [FIXED_HALF_PI, 65536, 0], [131072, 59591, -27272], [196608, 9248, -64880], [FIXED_PI, 0, -65536],
+            [262144, -49598, -42837], [327680, -62844, 18590], [-65536, -55146, 35410], [-196608, -9248, -64880],
+            [655360, -35653, -54989], [6553600, -33187, 56511],
+            // 接近32位上下限的角度：换算时不能溢出
+            [0x7FFFFFFF, 60475, 25252], [-0x80000000, -60476, 25251]
+        ];
+        trigCases.forEach(([angle, sin, cos]) => {
+            expect(`sin(${angle})`, fSin(fromRaw(angle)), sin);
+            expect(`cos(${angle})`, fCos(fromRaw(angle)), cos);
+        });
+
+        // [y, x, atan2]
+        const atanCases: [number, number, number][] = [
+            [0, 65536, 0], [65536, 65536, 51472], [65536, 0, FIXED_HALF_PI], [65536, -65536, 154415],
+            [0, -65536, FIXED_PI], [-65536, -65536, -154415], [-65536, 0, -FIXED_HALF_PI], [-65536, 65536, -51472],
+            [262144, 196608, 60772], [2179072, -7897088, 188243], [-32768000, 66, -FIXED_HALF_PI], [0, 0, 0],
+            // 最小值 -2^31 的绝对值超出32位范围
+            [-0x80000000, 65536, -102942], [65536, -0x80000000, 205885], [-0x80000000, -0x80000000, -154415]
+        ];
+        atanCases.forEach(([y, x, angle]) => expect(`atan2(${y}, ${x})`, fAtan2(fromRaw(y), fromRaw(x)), angle));
+
+        // 向量运算
+        const a = new FixedVec2(fromFloat(3), fromFloat(4));
+        const b = new FixedVec2(fromFloat(-1.5), fromFloat(2.25));
+        expect('length', a.length(), fromFloat(5));
+        expect('dot', a.dot(b), 294912);
+        expect('cross', a.cross(b), 835584);
+        expect('distanceSqr', a.distanceSqr(b), 1527808);
+        expect('distance', a.distance(b), 316427);
+        const sub = a.clone().sub(b);
+        expect('sub.x', sub.x, 294912);
+        expect('sub.y', sub.y, 114688);
+        const lerp = a.clone().lerp(b, fromFloat(0.25));
+        expect('lerp.x', lerp.x, 122880);
+        expect('lerp.y', lerp.y, 233472);
+        const quarterTurn = a.clone().rotate(FIXED_HALF_PI);
+        expect('rotate(π/2).x', quarterTurn.x, -262144);
+        expect('rotate(π/2).y', quarterTurn.y, 196608);
+        const rotated = a.clone().rotate(FIXED_ONE);
+        expect('rotate(1).x', rotated.x, -114354);
+        expect('rotate(1).y', rotated.y, 307078);
+        const clamped = a.clone().clampLength(fromFloat(2));
+        expect('clampLength.x', clamped.x, 78642);
+        expect('clampLength.y', clamped.y, 104856);
+        expect('clampLength 不超出时不变', a.clone().clampLength(fromFloat(10)).equals(a) ? 1 : 0, 1);
+        expect('equals', a.equals(b) ? 1 : 0, 0);
+
+        console.log(failures === 0 ? '定点数数学库测试全部通过' : `定点数数学库测试失败 ${failures} 项`);
+        return failures === 0;
+    }
+
+    /**
+     * 测试定点数乘除法：与原先的 BigInt 实现逐一比较结果，并比较两者的耗时
+     * 输入覆盖各个数量级和正负号（远超32位范围，测试期间关闭调试检查），只比较结果在安全整数范围内的情况
+     * @param iterations 随机用例数
+     * @returns 结果是否全部一致
+     */
+    public testFixedPointArithmetic(iterations: number = 100000): boolean {
+        const debug = isFixedPointDebug();
+        setFixedPointDebug(false);
+        try {
+            return this.runFixedPointArithmeticTest(iterations);
+        } finally {
+            setFixedPointDebug(debug);
+        }
+    }
+
+    private runFixedPointArithmeticTest(iterations: number): boolean {
+        console.log('=== 定点数乘除法测试 ===');
+        const mul = (a: number, b: number): number => fMul(a as Fixed, b as Fixed);
+        const div = (a: number, b: number): number => fDiv(a as Fixed, b as Fixed);
+        const factor = BigInt(FIXED_ONE);
+        const bigIntMul = (a: number, b: number) => Number((BigInt(a) * BigInt(b)) / factor);
+        const bigIntDiv = (a: number, b: number) => Number((BigInt(a) * factor) / BigInt(b));
+        const isSafe = (value: number) => Math.abs(value) <= Number.MAX_SAFE_INTEGER;
+
+        // 边界用例加上固定种子生成的随机用例
+        const cases: [number, number][] = [
+            [0, 0], [1, 1], [-1, 1], [FIXED_ONE, FIXED_ONE], [-FIXED_ONE, FIXED_HALF], [FIXED_ONE - 1, FIXED_ONE - 1],
+            [0x7FFFFFFF, 0x7FFFFFFF], [-0x80000000, 0x7FFFFFFF], [2 ** 40 + 12345, 2 ** 12 - 1], [3, -(2 ** 36)]
+        ];
+        const random = new DeterministicRandom(20240601);
+        const randomValue = () => {
+            const magnitude = Math.floor(random.next() * 2 ** Math.floor(random.next() * 44));
+            return random.nextBoolean() ? -magnitude : magnitude;
+        };
+        for (let i = 0; i < iterations; i++) {
+            cases.push([randomValue(), randomValue()]);
+        }
+
+        let checked = 0;
+        let failures = 0;
+        const check = (name: string, a: number, b: number, actual: number, expected: number) => {
+            checked++;
+            // 原实现不会返回 -0
+            if (actual !== expected || Object.is(actual, -0)) {
+                if (failures++ < 10) {
+                    console.error(`${name}(${a}, ${b}): 期望 ${expected}, 实际 ${actual}`);
+                }
+            }
+        };
+        cases.forEach(([a, b]) => {
+            const product = bigIntMul(a, b);
+            if (isSafe(product)) {
+                check('fMul', a, b, mul(a, b), product);
+            }
+            if (b !== 0) {
+                const quotient = bigIntDiv(a, b);
+                if (isSafe(quotient)) {
+                    check('fDiv', a, b, div(a, b), quotient);
+                }
+            }
+        });
+
+        // 微基准：游戏中的典型数值（场地内坐标与速度）
+        const benchCases = cases.slice(0, 10000).map(([a, b]) => [a % (2000 * FIXED_ONE), (b % (500 * FIXED_ONE)) || FIXED_ONE]);
+        const rounds = 20;
+        const measure = (fn: (a: number, b: number) => number) => {
+            let sink = 0;
+            const start = Date.now();
+            for (let r = 0; r < rounds; r++) {
+                for (let i = 0; i < benchCases.length; i++) {
+                    sink += fn(benchCases[i][0], benchCases[i][1]);
+                }
+            }
+            return { ms: Date.now() - start, sink: sink };
+        };
+        const operations = rounds * benchCases.length;
+        const benchmarks: [string, (a: number, b: number) => number, (a: number, b: number) => number][] = [
+            ['fMul', mul, bigIntMul],
+            ['fDiv', div, bigIntDiv]
+        ];
+        benchmarks.forEach(([name, fast, reference]) => {
+            const fastResult = measure(fast);
+            const referenceResult = measure(reference);
+            console.log(`${name}: ${operations} 次, 当前实现 ${fastResult.ms}ms, BigInt 实现 ${referenceResult.ms}ms` +
+                (fastResult.sink === referenceResult.sink ? '' : ' (结果不一致)'));
+        });
+
+        console.log(failures === 0 ? `定点数乘除法测试全部通过, 共 ${checked} 项` : `定点数乘除法测试失败 ${failures}/${checked} 项`);
+        return failures === 0;
+    }
 }
\ No newline at end of file
@@ -1,8 +1,9 @@
-import { _decorator, Component, Node, Button, Label, Canvas, UITransform, Color, director, Prefab, instantiate } from 'cc';
+import { _decorator, Component, Node, Button, Label, Canvas, UITransform, Color, director, Prefab, instantiate, Vec3 } from 'cc';
 import { GameManager, GameState } from './GameManager';
 import { NetworkManager, MessageType } from '../Framework/Network/NetworkManager';
 import { FrameSyncManager } from '../Framework/FrameSync/FrameSyncManager';
 import { InputManager } from '../Framework/FrameSync/InputManager';
+import { NetworkStatsOverlay } from './NetworkStatsOverlay';
 const { ccclass, property } = _decorator;
 
 /**
@@ -30,6 +31,21 @@ export class MainScene extends Component {
     
     @property(Label)
     public frameLabel: Label = null;
+
+    @property(Button)
+    public statsButton: Button = null;
+
+    @property(Button)
+    public spectateButton: Button = null;
+
+    @property(Button)
+    public switchTargetButton: Button = null; // 观战时切换镜头跟随的小球
+
+    @property(Node)
+    public joystick: Node = null; // 摇杆（MoveController）节点，观战时隐藏
+
+    @property
+    public cameraFollowSpeed: number = 5; // 镜头跟随的平滑系数，越大越快
     
     @property(Node)
     public gameArea: Node = null;
@@ -42,6 +58,9 @@ export class MainScene extends Component {
     private _frameSyncManager: FrameSyncManager = null;
     private _inputManager: InputManager = null;
     private _isUISetup: boolean = false;
+    private _statsOverlay: NetworkStatsOverlay = null;
+    private _followPlayerId: string = ''; // 观战时镜头跟随的玩家
+    private _gameAreaOrigin: Vec3 = new Vec3(); // 游戏区域不跟随时的位置
 
     onLoad() {
         this.init();
@@ -96,9 +115,16 @@ export class MainScene extends Component {
         
         // 创建帧数标签
         this.createFrameLabel();
+
+        // 创建网络统计面板及开关按钮
+        this.createStatsOverlay();
+
+        // 创建观战及切换视角按钮
+        this.createSpectateButtons();
         
         // 创建游戏区域
         this.createGameArea();
+        this._gameAreaOrigin.set(this.gameArea.position);
         
         this._isUISetup = true;
     }
@@ -213,6 +239,60 @@ export class MainScene extends Component {
         }
     }
 
+    private createStatsOverlay(): void {
+        if (!this.statsButton) {
+            const buttonNode = new Node('StatsButton');
+            this.uiContainer.addChild(buttonNode);
+            
+            const button = buttonNode.addComponent(Button);
+            const uiTransform = buttonNode.getComponent(UITransform);
+            
+            uiTransform.setContentSize(120, 40);
+            buttonNode.setPosition(300, 200, 0);
+            
+            this.statsButton = button;
+        }
+        this.statsButton.node.on(Button.EventType.CLICK, this.onStatsButtonClick, this);
+
+        const overlayNode = new Node('NetworkStatsOverlay');
+        this.uiContainer.addChild(overlayNode);
+        overlayNode.setPosition(-220, 120, 0);
+        overlayNode.active = false; // 默认隐藏
+        this._statsOverlay = overlayNode.addComponent(NetworkStatsOverlay);
+    }
+
+    private createSpectateButtons(): void {
+        if (!this.spectateButton) {
+            const buttonNode = new Node('SpectateButton');
+            this.uiContainer.addChild(buttonNode);
+            
+            const button = buttonNode.addComponent(Button);
+            const uiTransform = buttonNode.getComponent(UITransform);
+            
+            uiTransform.setContentSize(120, 40);
+            buttonNode.setPosition(0, 150, 0);
+            
+            this.spectateButton = button;
+        }
+        this.spectateButton.node.on(Button.EventType.CLICK, this.onSpectateButtonClick, this);
+        this.spectateButton.node.active = false; // 默认隐藏
+
+        if (!this.switchTargetButton) {
+            const buttonNode = new Node('SwitchTargetButton');
+            this.uiContainer.addChild(buttonNode);
+            
+            const button = buttonNode.addComponent(Button);
+            const uiTransform = buttonNode.getComponent(UITransform);
+            
+            uiTransform.setContentSize(120, 40);
+            buttonNode.setPosition(0, 100, 0);
+            
+            this.switchTargetButton = button;
+        }
+        this.switchTargetButton.node.on(Button.EventType.CLICK, this.onSwitchTargetButtonClick, this);
+        this.switchTargetButton.node.active = false; // 默认隐藏
+    }
+
     private createGameArea(): void {
         if (!this.gameArea) {
             this.gameArea = new Node('GameArea');
@@ -254,17 +334,33 @@ export class MainScene extends Component {
             case GameState.WAITING:
                 statusText = '等待玩家加入...';
                 break;
-            case GameState.PLAYING:
+            case GameState.PLAYING: {
                 statusText = isSinglePlayer ? '单人模式 - 游戏进行中' : '游戏进行中';
+                const pauseVote = this._gameManager.pauseVote;
+                if (pauseVote && pauseVote.votes[this._networkManager.playerId] === undefined) {
+                    statusText += ` - ${pauseVote.requesterId} 请求暂停，点击暂停按钮同意`;
+                } else if (pauseVote) {
+                    statusText += ' - 等待其他玩家同意暂停';
+                }
                 break;
-            case GameState.PAUSED:
+            }
+            case GameState.PAUSED: {
                 statusText = isSinglePlayer ? '单人模式 - 游戏已暂停' : '游戏已暂停';
+                const countdown = this._gameManager.resumeCountdown;
+                if (countdown > 0) {
+                    statusText += ` - ${countdown} 秒后继续`;
+                }
                 break;
+            }
             case GameState.FINISHED:
                 statusText = isSinglePlayer ? '单人模式 - 游戏已结束' : '游戏已结束';
                 break;
         }
         
+        if (this._gameManager.isSpectator) {
+            statusText = this._followPlayerId ? `观战中 (跟随 ${this._followPlayerId}) - ${statusText}` : `观战中 - ${statusText}`;
+        }
+        
         this.statusLabel.string = statusText;
     }
 
@@ -272,14 +368,16 @@ export class MainScene extends Component {
         if (!this.playerCountLabel) return;
         
         const playerCount = this._gameManager.playerCount;
-        this.playerCountLabel.string = `玩家数量: ${playerCount}`;
+        const spectatorCount = this._gameManager.spectatorCount;
+        this.playerCountLabel.string = spectatorCount > 0 ? `玩家数量: ${playerCount} 观战: ${spectatorCount}` : `玩家数量: ${playerCount}`;
     }
 
     private updateFrameLabel(): void {
         if (!this.frameLabel) return;
         
         const currentFrame = this._frameSyncManager.currentFrame;
-        this.frameLabel.string = `帧数: ${currentFrame}`;
+        const rtt = this._networkManager.stats.rtt;
+        this.frameLabel.string = rtt < 0 ? `帧数: ${currentFrame}` : `帧数: ${currentFrame} RTT: ${rtt.toFixed(0)}ms`;
     }
 
     private updateButtonStates(): void {
@@ -291,18 +389,28 @@ export class MainScene extends Component {
         const isInRoom = this._gameManager.roomId !== '';
         const isOwner = myPlayerId === this._gameManager.ownerId && isInRoom;
         const gameState = this._gameManager.gameState;
+        const isSpectator = this._gameManager.isSpectator;
 
         // "创建/加入房间" 按钮的逻辑
         // 游戏处于等待状态，且玩家还未加入任何房间时显示
         this.createOrJoin.node.active = gameState === GameState.WAITING && !isInRoom;
 
+        // "观战" 按钮与 "创建/加入房间" 同时显示；观战时可以切换镜头跟随的小球
+        this.spectateButton.node.active = gameState === GameState.WAITING && !isInRoom;
+        this.switchTargetButton.node.active = isSpectator && this._gameManager.ballPlayerIds.length > 1;
+
+        // 观战者不能操作小球
+        if (this.joystick) {
+            this.joystick.active = !isSpectator;
+        }
+
         // "开始游戏" 按钮的逻辑 (原为 readyButton)
         // 只有房主能看到，并且游戏处于等待状态
         this.startButton.node.active = isOwner && gameState === GameState.WAITING;
         
         // "暂停" 按钮的逻辑
-        // 游戏进行中时显示
-        this.pauseButton.node.active = gameState === GameState.PLAYING;
+        // 游戏进行中时用于请求暂停或同意暂停，暂停时用于请求恢复
+        this.pauseButton.node.active = !isSpectator && (gameState === GameState.PLAYING || gameState === GameState.PAUSED);
     }
 
     private onCreateOrJoinClick(): void {
@@ -341,6 +449,91 @@ export class MainScene extends Component {
         }
     }
 
+    private onSpectateButtonClick(): void {
+        console.log('观战按钮点击');
+        if (!this._networkManager.isConnected) {
+            this._networkManager.connect()
+                .then(() => {
+                    this._gameManager.spectateRoom();
+                })
+                .catch(err => {
+                    console.error('连接服务器失败:', err);
+                });
+        } else {
+            this._gameManager.spectateRoom();
+        }
+    }
+
+    private onSwitchTargetButtonClick(): void {
+        this.followNextBall();
+    }
+
+    /**
+     * 镜头切换到下一个小球（观战时）
+     */
+    public followNextBall(): void {
+        const playerIds = this._gameManager.ballPlayerIds;
+        if (playerIds.length === 0) {
+            this._followPlayerId = '';
+            return;
+        }
+        const index = playerIds.indexOf(this._followPlayerId);
+        this._followPlayerId = playerIds[(index + 1) % playerIds.length];
+    }
+
+    /**
+     * 获取镜头跟随的玩家ID，不跟随时为空字符串
+     */
+    public get followPlayerId(): string {
+        return this._followPlayerId;
+    }
+
+    lateUpdate(deltaTime: number) {
+        this.updateCamera(deltaTime);
+    }
+
+    /**
+     * 观战时移动游戏区域，使跟随的小球保持在画面中央；否则回到原位
+     */
+    private updateCamera(deltaTime: number): void {
+        if (!this.gameArea || !this._gameManager) {
+            return;
+        }
+
+        const target = new Vec3(this._gameAreaOrigin);
+        if (this._gameManager.isSpectator) {
+            // 跟随的小球被吃掉或离开时，自动切换到下一个
+            if (!this._gameManager.getBall(this._followPlayerId)) {
+                this.followNextBall();
+            }
+            const ball = this._gameManager.getBall(this._followPlayerId);
+            if (ball) {
+                const ballPosition = ball.node.position;
+                target.x -= ballPosition.x;
+                target.y -= ballPosition.y;
+            }
+        } else {
+            this._followPlayerId = '';
+        }
+
+        const position = new Vec3();
+        Vec3.lerp(position, this.gameArea.position, target, Math.min(deltaTime * this.cameraFollowSpeed, 1));
+        this.gameArea.setPosition(position);
+    }
+
+    private onStatsButtonClick(): void {
+        this.toggleStatsOverlay();
+    }
+
+    /**
+     * 显示或隐藏网络统计面板
+     */
+    public toggleStatsOverlay(): void {
+        if (this._statsOverlay) {
+            this._statsOverlay.node.active = !this._statsOverlay.node.active;
+        }
+    }
+
     onDestroy() {
         // 清理事件监听
         if (this.createOrJoin) {
@@ -352,6 +545,15 @@ export class MainScene extends Component {
         if (this.pauseButton) {
             this.pauseButton.node.off(Button.EventType.CLICK, this.onPauseButtonClick, this);
         }
+        if (this.statsButton) {
+            this.statsButton.node.off(Button.EventType.CLICK, this.onStatsButtonClick, this);
+        }
+        if (this.spectateButton) {
+            this.spectateButton.node.off(Button.EventType.CLICK, this.onSpectateButtonClick, this);
+        }
+        if (this.switchTargetButton) {
+            this.switchTargetButton.node.off(Button.EventType.CLICK, this.onSwitchTargetButtonClick, this);
+        }
         
         this.unschedule(this.updateUI);
     }
@@ -0,0 +1,187 @@
+import { _decorator, Component, Node, Label, Graphics, UITransform, Color } from 'cc';
+import { NetworkManager } from '../Framework/Network/NetworkManager';
+import { FrameSyncManager } from '../Framework/FrameSync/FrameSyncManager';
+const { ccclass, property } = _decorator;
+
+/**
+ * 一次采样的数据
+ */
+interface OverlaySample {
+    rtt: number;
+    jitter: number;
+    bufferDepth: number;
+    bytesInPerSecond: number;
+    bytesOutPerSecond: number;
+}
+
+/**
+ * 曲线图定义
+ */
+interface GraphDefinition {
+    title: string;
+    unit: string;
+    minScale: number; // 纵轴的最小量程，避免数值很小时曲线剧烈跳动
+    series: { color: Color; value: (sample: OverlaySample) => number }[];
+}
+
+// 曲线从上到下的顺序与此一致
+const GRAPHS: GraphDefinition[] = [
+    {
+        title: 'RTT',
+        unit: 'ms',
+        minScale: 50,
+        series: [{ color: Color.GREEN, value: sample => Math.max(sample.rtt, 0) }]
+    },
+    {
+        title: '帧到达抖动',
+        unit: 'ms',
+        minScale: 10,
+        series: [{ color: Color.YELLOW, value: sample => sample.jitter }]
+    },
+    {
+        title: '缓冲深度',
+        unit: '帧',
+        minScale: 5,
+        series: [{ color: Color.CYAN, value: sample => sample.bufferDepth }]
+    },
+    {
+        title: '流量 入/出',
+        unit: 'B/s',
+        minScale: 1000,
+        series: [
+            { color: Color.MAGENTA, value: sample => sample.bytesInPerSecond },
+            { color: Color.WHITE, value: sample => sample.bytesOutPerSecond }
+        ]
+    }
+];
+
+/**
+ * 网络调试面板
+ * 定时采集 NetworkManager 与 FrameSyncManager 的统计，显示文字并绘制实时曲线
+ */
+@ccclass('NetworkStatsOverlay')
+export class NetworkStatsOverlay extends Component {
+    @property
+    public sampleInterval: number = 0.2; // 采样间隔（秒）
+
+    @property
+    public maxSamples: number = 100; // 曲线保留的采样数
+
+    @property
+    public graphWidth: number = 300;
+
+    @property
+    public graphHeight: number = 50;
+
+    private _label: Label = null;
+    private _graphics: Graphics = null;
+    private _samples: OverlaySample[] = [];
+
+    onLoad() {
+        const labelNode = new Node('StatsLabel');
+        this.node.addChild(labelNode);
+        labelNode.addComponent(UITransform).setContentSize(this.graphWidth, 120);
+        labelNode.setPosition(0, 75, 0);
+        this._label = labelNode.addComponent(Label);
+        this._label.fontSize = 14;
+        this._label.lineHeight = 16;
+        this._label.color = Color.WHITE;
+
+        const graphNode = new Node('StatsGraph');
+        this.node.addChild(graphNode);
+        graphNode.addComponent(UITransform);
+        this._graphics = graphNode.addComponent(Graphics);
+    }
+
+    onEnable() {
+        this._samples = [];
+        this.schedule(this.sample, this.sampleInterval);
+    }
+
+    onDisable() {
+        this.unschedule(this.sample);
+    }
+
+    /**
+     * 采集一次统计并刷新显示
+     */
+    private sample(): void {
+        const network = NetworkManager.instance.getNetworkStats();
+        const buffer = FrameSyncManager.instance.getBufferStats();
+
+        this._samples.push({
+            rtt: network.rtt,
+            jitter: buffer ? buffer.jitter : 0,
+            bufferDepth: buffer ? buffer.currentDepth : 0,
+            bytesInPerSecond: network.bytesInPerSecond,
+            bytesOutPerSecond: network.bytesOutPerSecond
+        });
+        if (this._samples.length > this.maxSamples) {
+            this._samples.splice(0, this._samples.length - this.maxSamples);
+        }
+
+        const networkManager = NetworkManager.instance;
+        const lines = [
+            `RTT: ${network.rtt < 0 ? '-' : network.rtt.toFixed(0)} ms (${network.rttMin < 0 ? '-' : network.rttMin}-${network.rttMax < 0 ? '-' : network.rttMax}), 时钟偏移: ${networkManager.isClockSynced ? networkManager.clockOffset.toFixed(0) : '-'} ms`,
+            `入: ${network.messagesInPerSecond.toFixed(0)} 条/s ${network.bytesInPerSecond.toFixed(0)} B/s, 共 ${network.messagesIn} 条`,
+            `出: ${network.messagesOutPerSecond.toFixed(0)} 条/s ${network.bytesOutPerSecond.toFixed(0)} B/s, 共 ${network.messagesOut} 条`
+        ];
+        if (buffer) {
+            const lag = buffer.idealFrame < 0 ? '-' : (buffer.idealFrame - FrameSyncManager.instance.currentFrame).toFixed(1);
+            lines.push(`抖动: ${buffer.jitter.toFixed(1)} ms, 缓冲: ${buffer.currentDepth}/${buffer.targetDepth} 帧, 速率: ${buffer.playbackRate.toFixed(2)}, 落后理想帧: ${lag}`);
+            lines.push(`卡顿: ${buffer.stallCount}, 快进: ${buffer.fastForwardCount}, 追帧: ${buffer.catchUpCount}, 重发请求: ${buffer.resendRequestCount}`);
+        }
+        lines.push(`曲线: ${GRAPHS.map(graph => `${graph.title}(${graph.unit})`).join(' / ')}`);
+        this._label.string = lines.join('\n');
+
+        this.drawGraphs();
+    }
+
+    /**
+     * 从上到下依次绘制各项曲线
+     */
+    private drawGraphs(): void {
+        const g = this._graphics;
+        g.clear();
+
+        const left = -this.graphWidth / 2;
+        const spacing = 8;
+        GRAPHS.forEach((graph, index) => {
+            const top = -index * (this.graphHeight + spacing);
+            const bottom = top - this.graphHeight;
+
+            // 背景
+            g.fillColor = new Color(0, 0, 0, 160);
+            g.rect(left, bottom, this.graphWidth, this.graphHeight);
+            g.fill();
+
+            // 纵轴量程取窗口内最大值
+            let scale = graph.minScale;
+            this._samples.forEach(sample => {
+                graph.series.forEach(series => {
+                    scale = Math.max(scale, series.value(sample));
+                });
+            });
+
+            graph.series.forEach(series => {
+                if (this._samples.length < 2) {
+                    return;
+                }
+                g.strokeColor = series.color;
+                g.lineWidth = 1.5;
+                const step = this.graphWidth / (this.maxSamples - 1);
+                const offset = this.maxSamples - this._samples.length;
+                this._samples.forEach((sample, i) => {
+                    const x = left + (offset + i) * step;
+                    const y = bottom + Math.min(series.value(sample) / scale, 1) * this.graphHeight;
+                    if (i === 0) {
+                        g.moveTo(x, y);
+                    } else {
+                        g.lineTo(x, y);
+                    }
+                });
+                g.stroke();
+            });
+        });
+    }
+}
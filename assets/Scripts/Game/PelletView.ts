@@ -0,0 +1,88 @@
+import { _decorator, Component, Color, Graphics, UITransform } from 'cc';
+import { toFloat } from '../Framework/FrameSync/FixedPoint';
+import { PelletField } from './Simulation/PelletField';
+
+const { ccclass, property } = _decorator;
+
+/**
+ * 食物颜色，按食物在池中的位置循环取用
+ */
+const PELLET_COLORS = [
+    new Color(255, 140, 140),
+    new Color(140, 200, 255),
+    new Color(150, 235, 150),
+    new Color(255, 220, 120),
+    new Color(220, 150, 255)
+];
+
+/**
+ * 食物视图
+ * 所有食物用同一个 Graphics 绘制，不为每个食物创建节点；
+ * 只读取模拟层的 PelletField，食物变化（被吃、重生、回滚）后才重绘
+ */
+@ccclass('PelletView')
+export class PelletView extends Component {
+    @property
+    public pelletRadius: number = 5; // 绘制半径，与对局配置一致
+
+    private _graphics: Graphics = null;
+    private _field: PelletField = null;
+    private _drawnVersion: number = -1; // 已绘制的食物版本
+
+    onLoad() {
+        if (!this.node.getComponent(UITransform)) {
+            this.node.addComponent(UITransform);
+        }
+        this._graphics = this.node.getComponent(Graphics) || this.node.addComponent(Graphics);
+    }
+
+    /**
+     * 绑定模拟中的食物池并同步，食物池或绘制半径改变时强制重绘
+     */
+    public bind(field: PelletField, pelletRadius: number): void {
+        if (this._field !== field || this.pelletRadius !== pelletRadius) {
+            this._field = field;
+            this.pelletRadius = pelletRadius;
+            this._drawnVersion = -1;
+        }
+        this.syncFromField();
+    }
+
+    /**
+     * 逻辑帧执行后同步食物 (每逻辑帧调用)
+     */
+    public syncFromField(): void {
+        if (!this._field || !this._graphics || this._field.version === this._drawnVersion) {
+            return;
+        }
+        this._drawnVersion = this._field.version;
+
+        const graphics = this._graphics;
+        graphics.clear();
+        // 同色的食物一起填充，减少绘制批次
+        PELLET_COLORS.forEach((color, colorIndex) => {
+            let hasPellet = false;
+            this._field.pellets.forEach(pellet => {
+                if (pellet.isActive && pellet.slot % PELLET_COLORS.length === colorIndex) {
+                    graphics.circle(toFloat(pellet.position.x), toFloat(pellet.position.y), this.pelletRadius);
+                    hasPellet = true;
+                }
+            });
+            if (hasPellet) {
+                graphics.fillColor = color;
+                graphics.fill();
+            }
+        });
+    }
+
+    /**
+     * 清除所有已绘制的食物
+     */
+    public clear(): void {
+        this._field = null;
+        this._drawnVersion = -1;
+        if (this._graphics) {
+            this._graphics.clear();
+        }
+    }
+}
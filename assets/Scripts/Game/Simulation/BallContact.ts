@@ -0,0 +1,76 @@
+import { Fixed, FixedVec2, FIXED_ONE, FIXED_ZERO, fAdd, fSub, fMul, fDiv, fNeg } from '../../Framework/FrameSync/FixedPoint';
+import { BallEntity } from './BallEntity';
+
+/**
+ * 一帧内检测到的两球接触
+ * 规则系统（如吃球）处理后将 handled 置为 true，之后的碰撞响应不再处理这对球
+ */
+export interface BallContact {
+    a: BallEntity;
+    b: BallEntity;
+    handled: boolean;
+}
+
+/**
+ * 接触的几何信息
+ */
+export interface ContactGeometry {
+    normal: FixedVec2; // 由 a 指向 b 的单位向量
+    penetration: Fixed; // 重叠深度
+}
+
+/**
+ * 计算两球的接触几何，没有重叠时返回 null
+ * 两球中心重合时无法确定方向，固定沿 x 轴正方向分开，保证各端结果一致
+ */
+export function computeContactGeometry(a: BallEntity, b: BallEntity): ContactGeometry | null {
+    const delta = b.position.clone().sub(a.position);
+    const distance = delta.length();
+    const minDistance = fAdd(a.radiusFp, b.radiusFp);
+    if (distance >= minDistance) {
+        return null;
+    }
+
+    const normal = distance > 0
+        ? new FixedVec2(fDiv(delta.x, distance), fDiv(delta.y, distance))
+        : new FixedVec2(FIXED_ONE, FIXED_ZERO);
+    return { normal: normal, penetration: fSub(minDistance, distance) };
+}
+
+/**
+ * a 在两球质量中所占份额的补数，即 mb / (ma + mb)
+ * 质量之和可能超出定点数范围，改用质量比计算：1 / (1 + ma / mb)
+ */
+function massShare(a: BallEntity, b: BallEntity): Fixed {
+    return fDiv(FIXED_ONE, fAdd(FIXED_ONE, fDiv(a.mass, b.mass)));
+}
+
+/**
+ * 碰撞响应：按质量分开重叠的两球，并沿法线方向交换动量
+ * 质量越大的球被推开和改变速度越少；两球已在分离时只修正位置
+ * @param restitution 恢复系数（定点数），1 为完全弹性碰撞，0 为完全非弹性碰撞
+ * @returns 两球是否重叠
+ */
+export function resolveBallContact(a: BallEntity, b: BallEntity, restitution: Fixed): boolean {
+    const contact = computeContactGeometry(a, b);
+    if (!contact) {
+        return false;
+    }
+    const { normal, penetration } = contact;
+    const shareA = massShare(a, b);
+    const shareB = fSub(FIXED_ONE, shareA);
+
+    // 分开重叠部分
+    a.position.sub(normal.clone().multiplyScalar(fMul(penetration, shareA)));
+    b.position.add(normal.clone().multiplyScalar(fMul(penetration, shareB)));
+
+    // 法线方向的相对速度，小于 0 表示正在靠近
+    const approachSpeed = b.velocity.clone().sub(a.velocity).dot(normal);
+    if (approachSpeed < 0) {
+        // Δva = (1 + e)·vn·mb/(ma + mb)·n，Δvb = -(1 + e)·vn·ma/(ma + mb)·n，总动量不变
+        const impulse = fMul(fAdd(FIXED_ONE, restitution), approachSpeed);
+        a.velocity.add(normal.clone().multiplyScalar(fMul(impulse, shareA)));
+        b.velocity.add(normal.clone().multiplyScalar(fNeg(fMul(impulse, shareB))));
+    }
+    return true;
+}
@@ -0,0 +1,340 @@
+import { Fixed, FixedVec2, FIXED_ZERO, FIXED_ONE, fromInt, fromFloat, fromRaw, toFloat, toInt, fAdd, fSub, fNeg, fMul, fDiv, fSqrt } from '../../Framework/FrameSync/FixedPoint';
+import { PlayerInput, InputType, MoveInputData } from '../../Framework/FrameSync/FrameTypes';
+import { SpatialBounds } from '../../Framework/FrameSync/SpatialHash';
+import { MovementModel, MovementParams, evaluateCurve } from './MatchConfig';
+
+/**
+ * 小球的确定性状态（用于快照保存与恢复）
+ * 位置、速度和半径保存定点数的底层整数值，恢复时经 fromRaw 转回定点数
+ */
+export interface BallState {
+    playerId: string;
+    positionX: number;
+    positionY: number;
+    velocityX: number;
+    velocityY: number;
+    moveDirectionX: number;
+    moveDirectionY: number;
+    radius: number;
+    isAlive: boolean;
+}
+
+/**
+ * 移动输入中方向分量的取值范围，超出的分量被截断，避免异常输入超出定点数范围
+ */
+const MAX_INPUT_COMPONENT = 1;
+
+/**
+ * 未指定对局参数时的移动参数：没有惯性，最大速度 200，与大小无关
+ */
+const DEFAULT_MOVEMENT: MovementParams = {
+    model: MovementModel.DIRECT,
+    maxSpeed: fromInt(200),
+    acceleration: FIXED_ZERO,
+    drag: FIXED_ZERO,
+    speedCurve: []
+};
+
+/**
+ * 场地边界（定点数）
+ */
+export interface ArenaBounds {
+    left: Fixed;
+    right: Fixed;
+    top: Fixed;
+    bottom: Fixed;
+}
+
+/**
+ * 小球实体（纯逻辑，不依赖引擎）
+ */
+export class BallEntity {
+    public readonly playerId: string;
+    public isAlive: boolean = true; // 球是否存活
+
+    // --- 所有逻辑状态都是定点数，浮点数只在渲染时换算 ---
+    public readonly position: FixedVec2 = new FixedVec2();
+    public readonly velocity: FixedVec2 = new FixedVec2();
+    public readonly moveDirection: FixedVec2 = new FixedVec2(); // 输入的移动方向，长度不超过 1（摇杆推动的程度），保持到下一次输入
+    public movement: MovementParams = DEFAULT_MOVEMENT; // 移动模型和参数，由对局配置决定
+    private _radius_fp: Fixed = FIXED_ZERO;
+
+    constructor(playerId: string, radius: Fixed, position: FixedVec2) {
+        this.playerId = playerId;
+        this.setRadius(radius);
+        this.position.set(position.x, position.y);
+    }
+
+    /**
+     * 设置小球半径（定点数）
+     */
+    public setRadius(radius: Fixed): void {
+        this._radius_fp = radius;
+    }
+
+    /**
+     * 获取定点数半径
+     */
+    public get radiusFp(): Fixed {
+        return this._radius_fp;
+    }
+
+    /**
+     * 半径（浮点数，仅用于渲染和日志，不能参与模拟）
+     */
+    public get radius(): number {
+        return toFloat(this._radius_fp);
+    }
+
+    /**
+     * 质量（定点数），与面积成正比，取半径的平方（π 在增长计算中约去）
+     * 半径不超过 MAX_BALL_RADIUS（181）时不会超出32位范围：toFixedMatchParams 将半径上限截断到此值，
+     * 出生半径和 grow 都不超过半径上限
+     */
+    public get mass(): Fixed {
+        return fMul(this._radius_fp, this._radius_fp);
+    }
+
+    /**
+     * 当前大小下的最大速度（定点数）：基础最大速度 × 速度曲线在当前半径处的倍率
+     */
+    public get maxSpeed(): Fixed {
+        return fMul(this.movement.maxSpeed, evaluateCurve(this.movement.speedCurve, this._radius_fp));
+    }
+
+    /**
+     * 目标速度（定点数）：移动方向 × 当前大小下的最大速度，球变大或变小后随之改变
+     */
+    public get targetVelocity(): FixedVec2 {
+        return this.moveDirection.clone().multiplyScalar(this.maxSpeed);
+    }
+
+    /**
+     * 处理玩家输入
+     */
+    public applyInput(input: PlayerInput): void {
+        switch (input.inputType) {
+            case InputType.MOVE:
+                this.handleMoveInput(input.inputData as MoveInputData);
+                break;
+            case InputType.STOP:
+                this.handleStopInput();
+                break;
+        }
+    }
+
+    /**
+     * 处理移动输入
+     */
+    private handleMoveInput(inputData: MoveInputData): void {
+        if (!inputData || !inputData.direction) {
+            // 如果数据不完整，可以视为无效输入，保持上一帧状态
+            return;
+        }
+
+        const { x, y } = inputData.direction;
+        if (!Number.isFinite(x) || !Number.isFinite(y)) {
+            return;
+        }
+
+        // 输入来自网络的浮点数，在这里一次性转换为定点数，之后只做定点数运算
+        const direction = new FixedVec2(clampInput(x), clampInput(y));
+        const directionLength = direction.length();
+
+        if (directionLength <= 0) {
+            this.handleStopInput();
+            return;
+        }
+
+        // 方向长度超过 1 时缩放到 1，不足 1 时保留（摇杆没有推到底时速度较慢）
+        const throttle = directionLength < FIXED_ONE ? directionLength : FIXED_ONE;
+
+        // 方向 × 推动程度 / 方向长度（先乘后除，保留精度）
+        this.setMoveDirection(
+            fDiv(fMul(direction.x, throttle), directionLength),
+            fDiv(fMul(direction.y, throttle), directionLength)
+        );
+    }
+
+    /**
+     * 处理停止输入
+     */
+    private handleStopInput(): void {
+        this.setMoveDirection(FIXED_ZERO, FIXED_ZERO);
+    }
+
+    /**
+     * 设置移动方向，无惯性模型下速度立即变为目标速度
+     */
+    private setMoveDirection(x: Fixed, y: Fixed): void {
+        this.moveDirection.set(x, y);
+        if (this.movement.model === MovementModel.DIRECT) {
+            const target = this.targetVelocity;
+            this.velocity.set(target.x, target.y);
+        }
+    }
+
+    /**
+     * 更新物理状态
+     */
+    public integrate(fixedDeltaTime_fp: Fixed, bounds: ArenaBounds, wallBounce: Fixed): void {
+        if (this.movement.model === MovementModel.INERTIA) {
+            this.applyInertia(fixedDeltaTime_fp);
+        } else {
+            // 球变大后最大速度降低，超出的部分立即截去
+            this.velocity.clampLength(this.maxSpeed);
+        }
+
+        // 先更新速度再用新速度更新位置（半隐式欧拉积分）
+        const deltaPosition = this.velocity.clone().multiplyScalar(fixedDeltaTime_fp);
+        this.position.add(deltaPosition);
+
+        this.checkBoundaries(bounds, wallBounce);
+    }
+
+    /**
+     * 惯性模型的速度更新：先按阻力衰减，再以不超过加速度的幅度趋向目标速度，最后限制在最大速度以内
+     * 阻力在趋向目标之前作用，加速度足以抵消阻力时，速度最终稳定在目标速度；
+     * 撞墙和碰撞得到的速度会逐渐衰减，而不是在下一次输入时立即消失
+     */
+    private applyInertia(fixedDeltaTime_fp: Fixed): void {
+        const { acceleration, drag } = this.movement;
+        const maxSpeed = this.maxSpeed;
+
+        const dragFactor = fMul(drag, fixedDeltaTime_fp);
+        this.velocity.multiplyScalar(fSub(FIXED_ONE, dragFactor < FIXED_ONE ? dragFactor : FIXED_ONE));
+
+        const steering = this.moveDirection.clone().multiplyScalar(maxSpeed).sub(this.velocity);
+        this.velocity.add(steering.clampLength(fMul(acceleration, fixedDeltaTime_fp)));
+        this.velocity.clampLength(maxSpeed);
+    }
+
+    /**
+     * 边界检测：越界时移回场地内并反弹
+     * @param wallBounce 撞墙后保留的速度比例（定点数）
+     */
+    public checkBoundaries(bounds: ArenaBounds, wallBounce: Fixed): void {
+        const bounce_fp = fNeg(wallBounce);
+
+        if (fSub(this.position.x, this._radius_fp) < bounds.left) {
+            this.position.x = fAdd(bounds.left, this._radius_fp);
+            this.velocity.x = fMul(this.velocity.x, bounce_fp);
+        } else if (fAdd(this.position.x, this._radius_fp) > bounds.right) {
+            this.position.x = fSub(bounds.right, this._radius_fp);
+            this.velocity.x = fMul(this.velocity.x, bounce_fp);
+        }
+
+        if (fAdd(this.position.y, this._radius_fp) > bounds.top) {
+            this.position.y = fSub(bounds.top, this._radius_fp);
+            this.velocity.y = fMul(this.velocity.y, bounce_fp);
+        } else if (fSub(this.position.y, this._radius_fp) < bounds.bottom) {
+            this.position.y = fAdd(bounds.bottom, this._radius_fp);
+            this.velocity.y = fMul(this.velocity.y, bounce_fp);
+        }
+    }
+
+    /**
+     * 获取包围盒（用于碰撞检测的粗筛）
+     */
+    public getBounds(): SpatialBounds {
+        return {
+            minX: fSub(this.position.x, this._radius_fp),
+            minY: fSub(this.position.y, this._radius_fp),
+            maxX: fAdd(this.position.x, this._radius_fp),
+            maxY: fAdd(this.position.y, this._radius_fp)
+        };
+    }
+
+    /**
+     * 检测与另一个球的碰撞
+     */
+    public checkCollisionWith(other: BallEntity): boolean {
+        if (!this.isAlive || !other.isAlive) {
+            return false;
+        }
+
+        // 比较中心距离与半径之和（距离的平方在场地尺度下会超出32位定点数范围，因此直接比较距离）
+        const minDistance = fAdd(this._radius_fp, other._radius_fp);
+        return this.position.distance(other.position) < minDistance;
+    }
+
+    /**
+     * 吃掉另一个球，返回获得的积分
+     * @param absorbRatio 吸收对方质量的比例（定点数）
+     * @param scorePerRadius 每单位半径的积分（定点数）
+     * @param maxRadius 半径上限（定点数）
+     */
+    public consume(target: BallEntity, absorbRatio: Fixed, scorePerRadius: Fixed, maxRadius: Fixed): number {
+        // 计算积分（基于被吃球的半径），向下取整
+        const score = toInt(fMul(target._radius_fp, scorePerRadius));
+
+        this.grow(fMul(target.mass, absorbRatio), maxRadius);
+
+        // 标记目标球为死亡
+        target.isAlive = false;
+        return score;
+    }
+
+    /**
+     * 增加质量（吃球、吃食物），按质量（面积）增长后由质量求新半径，半径不超过 maxRadius
+     */
+    public grow(massGain: Fixed, maxRadius: Fixed): void {
+        // 先与剩余空间比较，避免质量相加超出定点数范围
+        if (massGain >= fSub(fMul(maxRadius, maxRadius), this.mass)) {
+            this.setRadius(maxRadius);
+            return;
+        }
+        this.setRadius(fSqrt(fAdd(this.mass, massGain)));
+    }
+
+    /**
+     * 质量衰减：损失 当前质量 × rate × 帧间隔，半径不低于 floorRadius
+     * 只会减小质量，半径在上限以内时中间结果都不超出定点数范围（见 mass）
+     * @param rate 每秒损失的质量比例（定点数）
+     * @returns 半径是否变化
+     */
+    public decayMass(rate: Fixed, fixedDeltaTime_fp: Fixed, floorRadius: Fixed): boolean {
+        if (rate <= 0 || this._radius_fp <= floorRadius) {
+            return false;
+        }
+        const newMass = fSub(this.mass, fMul(this.mass, fMul(rate, fixedDeltaTime_fp)));
+        const newRadius = fSqrt(newMass);
+        this.setRadius(newRadius > floorRadius ? newRadius : floorRadius);
+        return true;
+    }
+
+    /**
+     * 保存小球状态
+     */
+    public saveState(): BallState {
+        return {
+            playerId: this.playerId,
+            positionX: this.position.x,
+            positionY: this.position.y,
+            velocityX: this.velocity.x,
+            velocityY: this.velocity.y,
+            moveDirectionX: this.moveDirection.x,
+            moveDirectionY: this.moveDirection.y,
+            radius: this._radius_fp,
+            isAlive: this.isAlive
+        };
+    }
+
+    /**
+     * 根据保存的状态创建小球
+     */
+    public static fromState(state: BallState): BallEntity {
+        const ball = new BallEntity(state.playerId, fromRaw(state.radius), new FixedVec2(fromRaw(state.positionX), fromRaw(state.positionY)));
+        ball.velocity.set(fromRaw(state.velocityX), fromRaw(state.velocityY));
+        ball.moveDirection.set(fromRaw(state.moveDirectionX), fromRaw(state.moveDirectionY));
+        ball.isAlive = state.isAlive;
+        return ball;
+    }
+}
+
+/**
+ * 截断输入分量并转换为定点数
+ */
+function clampInput(value: number): Fixed {
+    return fromFloat(Math.max(-MAX_INPUT_COMPONENT, Math.min(MAX_INPUT_COMPONENT, value)));
+}
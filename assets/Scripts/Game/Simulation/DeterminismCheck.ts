@@ -0,0 +1,120 @@
+import { FrameData, InputType, PlayerInput } from '../../Framework/FrameSync/FrameTypes';
+import { DeterministicRandom } from '../../Framework/FrameSync/DeterministicRandom';
+import { toFloat } from '../../Framework/FrameSync/FixedPoint';
+import { GameSimulation, SimulationState } from './GameSimulation';
+import { MatchConfigOverrides } from './MatchConfig';
+
+/**
+ * 确定性检查的参数
+ */
+export interface DeterminismCheckOptions {
+    seed: number; // 对局种子，同时用于生成脚本输入
+    playerCount: number;
+    frames: number;
+    restoreFrame: number; // 在这一帧保存快照，并从快照恢复出第三个模拟继续比较
+    config?: MatchConfigOverrides;
+}
+
+/**
+ * 确定性检查的结果
+ */
+export interface DeterminismCheckResult {
+    passed: boolean;
+    framesRun: number;
+    mismatchFrame: number; // 第一个哈希不一致的帧，-1 表示没有
+    finalHash: number; // 最后一帧的状态哈希，可与其他平台、其他版本的运行结果比较
+}
+
+/**
+ * 默认参数：6名玩家、30秒对局，第10秒保存快照
+ * 球的大小相近，既有吃球也有相互弹开
+ */
+export const DEFAULT_DETERMINISM_CHECK: DeterminismCheckOptions = {
+    seed: 20240601,
+    playerCount: 6,
+    frames: 900,
+    restoreFrame: 300,
+    config: { maxPlayers: 6, ballMinRadius: 22, ballMaxRadius: 28 }
+};
+
+/**
+ * 生成一帧脚本输入：每名玩家随机改变方向、追向另一个球、停下或保持不变
+ * 追球让小球频繁接触，覆盖吃球和碰撞响应
+ */
+function scriptedInputs(random: DeterministicRandom, playerIds: string[], simulation: GameSimulation): PlayerInput[] {
+    const inputs: PlayerInput[] = [];
+    playerIds.forEach(playerId => {
+        const action = random.nextInt(0, 9);
+        const self = simulation.getBall(playerId);
+        const target = simulation.getBall(playerIds[random.nextInt(0, playerIds.length - 1)]);
+        if (action === 3 && self && target && target !== self) {
+            // 只用减法和除法（IEEE 754 保证各引擎结果相同），方向分量不超过 1
+            const dx = toFloat(target.position.x) - toFloat(self.position.x);
+            const dy = toFloat(target.position.y) - toFloat(self.position.y);
+            const scale = Math.max(Math.abs(dx), Math.abs(dy)) || 1;
+            inputs.push({
+                playerId: playerId,
+                inputType: InputType.MOVE,
+                inputData: { direction: { x: dx / scale, y: dy / scale } },
+                timestamp: 0
+            });
+        } else if (action < 2) {
+            // 与摇杆输入一样使用浮点方向，长度可能小于 1
+            inputs.push({
+                playerId: playerId,
+                inputType: InputType.MOVE,
+                inputData: { direction: { x: random.nextRange(-1, 1), y: random.nextRange(-1, 1) } },
+                timestamp: 0
+            });
+        } else if (action === 2) {
+            inputs.push({ playerId: playerId, inputType: InputType.STOP, inputData: null, timestamp: 0 });
+        }
+    });
+    return inputs;
+}
+
+/**
+ * 运行确定性检查
+ * 用同一份脚本输入同时推进两个独立的模拟，每帧比较状态哈希；
+ * 中途保存快照并经 JSON 序列化（与网络传输相同）后恢复出第三个模拟，之后三者逐帧比较
+ */
+export function runDeterminismCheck(options: DeterminismCheckOptions = DEFAULT_DETERMINISM_CHECK): DeterminismCheckResult {
+    const playerIds: string[] = [];
+    for (let i = 0; i < options.playerCount; i++) {
+        playerIds.push(`player_${i + 1}`);
+    }
+
+    const simulations = [new GameSimulation(options.config), new GameSimulation(options.config)];
+    simulations.forEach(simulation => simulation.start(options.seed, playerIds));
+
+    const inputRandom = new DeterministicRandom(options.seed);
+    let mismatchFrame = -1;
+    let finalHash = 0;
+    let frameId = 0;
+    for (; frameId < options.frames && mismatchFrame < 0; frameId++) {
+        if (frameId === options.restoreFrame) {
+            const state: SimulationState = JSON.parse(JSON.stringify(simulations[0].saveState()));
+            const restored = new GameSimulation(options.config);
+            restored.start(options.seed, playerIds);
+            restored.restoreState(state);
+            simulations.push(restored);
+        }
+
+        const frameData: FrameData = { frameId: frameId, inputs: scriptedInputs(inputRandom, playerIds, simulations[0]), timestamp: 0 };
+        const hashes = simulations.map(simulation => {
+            simulation.step(frameData);
+            return simulation.computeHash(frameId);
+        });
+        finalHash = hashes[0];
+        if (hashes.some(hash => hash !== finalHash)) {
+            mismatchFrame = frameId;
+        }
+    }
+
+    return {
+        passed: mismatchFrame < 0,
+        framesRun: frameId,
+        mismatchFrame: mismatchFrame,
+        finalHash: finalHash
+    };
+}
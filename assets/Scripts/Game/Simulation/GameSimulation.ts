@@ -0,0 +1,694 @@
+import { FrameData, InputType } from '../../Framework/FrameSync/FrameTypes';
+import { Fixed, FixedVec2, FIXED_ZERO, fromInt, toFloat, fAdd, fSub, fMul, fNeg } from '../../Framework/FrameSync/FixedPoint';
+import { DeterministicRandom, RandomStreams, RandomStreamsState } from '../../Framework/FrameSync/DeterministicRandom';
+import { StateHash } from '../../Framework/FrameSync/StateHash';
+import { Logger } from '../../Framework/Logger';
+import { SimulationPhase, SimulationSystem, SystemPipeline } from '../../Framework/FrameSync/SystemPipeline';
+import { SpatialHash } from '../../Framework/FrameSync/SpatialHash';
+import { BallEntity, BallState, ArenaBounds } from './BallEntity';
+import { BallContact, resolveBallContact } from './BallContact';
+import { Pellet, PelletField, PelletState } from './PelletField';
+import { MatchConfig, MatchConfigOverrides, DEFAULT_MATCH_CONFIG, mergeMatchConfig, FixedMatchParams, toFixedMatchParams, evaluateCurve } from './MatchConfig';
+
+/**
+ * 模拟的确定性状态快照
+ */
+export interface SimulationState {
+    balls: BallState[];
+    scores: [string, number][];
+    randomSeed: number; // 对局种子
+    randomStreams: RandomStreamsState; // 各随机子流的状态
+    pellets: PelletState[]; // 食物池中每个食物的状态
+    players: string[];
+    gameOverFrame: number; // 游戏结束的帧，-1 表示未结束
+    winnerId: string;
+}
+
+/**
+ * 随机子流名称
+ * 每个系统使用自己的子流，新增随机数的使用者不会改变其他系统的随机序列
+ */
+export enum RandomStream {
+    SPAWN = 'spawn', // 出生位置与大小
+    PICKUP = 'pickup', // 道具、食物
+    AI = 'ai' // 机器人决策
+}
+
+/**
+ * 每帧传给各系统的上下文
+ */
+export interface SimulationContext {
+    simulation: GameSimulation;
+    frameData: FrameData;
+    fixedDeltaTime: number; // 逻辑帧间隔（秒，浮点数，仅供渲染使用）
+    fixedDeltaTime_fp: Fixed; // 逻辑帧间隔（定点数）
+}
+
+/**
+ * 游戏模拟系统
+ */
+export type GameSystem = SimulationSystem<SimulationContext>;
+
+/**
+ * 粗筛网格的格子边长（约为常见小球的直径），大球会登记到多个格子
+ */
+const BROADPHASE_CELL_SIZE: Fixed = fromInt(64);
+
+/**
+ * 无头游戏模拟
+ * 只依赖帧数据推进，不依赖引擎，可在客户端、Node 测试、机器人和服务器上运行
+ */
+export class GameSimulation {
+    private _config: MatchConfig;
+    private _params: FixedMatchParams; // 换算为定点数的对局参数
+    private _balls: Map<string, BallEntity> = new Map();
+    private _scores: Map<string, number> = new Map(); // 玩家积分
+    private _players: string[] = []; // 参与本局的玩家（按加入顺序）
+    private _random: RandomStreams = new RandomStreams(); // 确定性随机数子流
+    private _gameOverFrame: number = -1;
+    private _winnerId: string = null;
+    private _pipeline: SystemPipeline<SimulationContext> = new SystemPipeline();
+    private _contacts: BallContact[] = []; // 本帧检测到的接触
+    private _broadphase: SpatialHash<BallEntity> = new SpatialHash(BROADPHASE_CELL_SIZE); // 接触检测的粗筛网格
+    private _pellets: PelletField = new PelletField(); // 食物池
+
+    constructor(config: MatchConfigOverrides = {}) {
+        this._config = mergeMatchConfig(DEFAULT_MATCH_CONFIG, config);
+        this._params = toFixedMatchParams(this._config);
+        this.registerCoreSystems();
+    }
+
+    /**
+     * 注册内置的游戏系统
+     */
+    private registerCoreSystems(): void {
+        this._pipeline.add({
+            name: 'core.join',
+            phase: SimulationPhase.INPUT,
+            priority: -100, // 先为中途加入的玩家生成小球，本帧即可处理其输入
+            execute: context => this.handleJoinInputs(context.frameData)
+        });
+        this._pipeline.add({
+            name: 'core.input',
+            phase: SimulationPhase.INPUT,
+            execute: context => this.applyInputs(context.frameData)
+        });
+        this._pipeline.add({
+            name: 'core.movement',
+            phase: SimulationPhase.MOVEMENT,
+            execute: context => this.moveBalls(context.fixedDeltaTime_fp)
+        });
+        // 碰撞分三步：检测接触 → 规则（吃球）→ 物理响应，其他规则可以用优先级插在中间
+        this._pipeline.add({
+            name: 'core.contacts',
+            phase: SimulationPhase.COLLISION,
+            execute: () => this.detectContacts()
+        });
+        this._pipeline.add({
+            name: 'core.pellets',
+            phase: SimulationPhase.COLLISION,
+            priority: 5, // 使用 core.contacts 建立的粗筛网格，在吃球之前
+            execute: context => this.eatPellets(context.frameData.frameId)
+        });
+        this._pipeline.add({
+            name: 'core.eat',
+            phase: SimulationPhase.COLLISION,
+            priority: 10,
+            execute: () => this.applyEatRule()
+        });
+        this._pipeline.add({
+            name: 'core.contactResponse',
+            phase: SimulationPhase.COLLISION,
+            priority: 20,
+            execute: () => this.resolveContacts()
+        });
+        this._pipeline.add({
+            name: 'core.massDecay',
+            phase: SimulationPhase.RULES,
+            priority: -10, // 在胜负判定之前
+            execute: context => this.applyMassDecay(context.fixedDeltaTime_fp)
+        });
+        this._pipeline.add({
+            name: 'core.pelletRespawn',
+            phase: SimulationPhase.RULES,
+            execute: context => this.respawnPellets(context.frameData.frameId)
+        });
+        this._pipeline.add({
+            name: 'core.gameEnd',
+            phase: SimulationPhase.RULES,
+            execute: context => this.checkGameEnd(context.frameData.frameId)
+        });
+        this._pipeline.add({
+            name: 'core.cleanup',
+            phase: SimulationPhase.CLEANUP,
+            execute: () => this.cleanupDeadBalls()
+        });
+    }
+
+    /**
+     * 添加游戏系统（名称不能与已有系统重复）
+     * 影响模拟状态的系统必须在所有端（包括服务器）以相同方式注册
+     */
+    public addSystem(system: GameSystem): void {
+        this._pipeline.add(system);
+    }
+
+    /**
+     * 移除游戏系统
+     */
+    public removeSystem(name: string): boolean {
+        return this._pipeline.remove(name);
+    }
+
+    /**
+     * 是否已注册指定名称的系统
+     */
+    public hasSystem(name: string): boolean {
+        return this._pipeline.has(name);
+    }
+
+    /**
+     * 按执行顺序列出所有系统
+     */
+    public get systemNames(): string[] {
+        return this._pipeline.systemNames;
+    }
+
+    /**
+     * 修改对局配置（开局前调用）
+     */
+    public setConfig(config: MatchConfigOverrides): void {
+        this._config = mergeMatchConfig(this._config, config);
+        this._params = toFixedMatchParams(this._config);
+    }
+
+    /**
+     * 获取对局配置
+     */
+    public get config(): MatchConfig {
+        return mergeMatchConfig(this._config);
+    }
+
+    /**
+     * 清空模拟状态
+     */
+    public reset(seed: number = 1): void {
+        this._balls.clear();
+        this._scores.clear();
+        this._players = [];
+        this._contacts = [];
+        this._broadphase.clear();
+        this._pellets.reset(this._params.pelletCount);
+        this._random.reset(seed);
+        this._gameOverFrame = -1;
+        this._winnerId = null;
+    }
+
+    /**
+     * 开始新的一局：按玩家顺序生成小球
+     */
+    public start(seed: number, playerIds: string[]): void {
+        this.reset(seed);
+        playerIds.forEach(playerId => this._scores.set(playerId, 0));
+        playerIds.forEach((playerId, index) => this.spawnBall(playerId, index));
+        this.respawnPellets(0);
+    }
+
+    /**
+     * 推进一帧：按阶段依次执行所有系统
+     */
+    public step(frameData: FrameData): void {
+        this._pipeline.run({
+            simulation: this,
+            frameData: frameData,
+            fixedDeltaTime: 1 / this._config.frameRate,
+            fixedDeltaTime_fp: this._params.fixedDeltaTime
+        });
+    }
+
+    /**
+     * 让所有小球处理本帧输入
+     */
+    private applyInputs(frameData: FrameData): void {
+        this._balls.forEach(ball => {
+            if (!ball.isAlive) {
+                return;
+            }
+            const playerInput = frameData.inputs.find(input => input.playerId === ball.playerId);
+            if (playerInput) {
+                ball.applyInput(playerInput);
+            }
+        });
+    }
+
+    /**
+     * 根据速度更新所有小球的位置并处理边界
+     */
+    private moveBalls(fixedDeltaTime_fp: Fixed): void {
+        const bounds = this.getArenaBounds();
+        this._balls.forEach(ball => {
+            if (ball.isAlive) {
+                ball.integrate(fixedDeltaTime_fp, bounds, this._params.wallBounce);
+            }
+        });
+    }
+
+    /**
+     * 质量衰减：半径超过 massDecayFloor 的球按衰减曲线逐渐损失质量，抑制滚雪球
+     */
+    private applyMassDecay(fixedDeltaTime_fp: Fixed): void {
+        const { massDecayCurve, massDecayFloor } = this._params;
+        this._balls.forEach(ball => {
+            if (ball.isAlive) {
+                ball.decayMass(evaluateCurve(massDecayCurve, ball.radiusFp, FIXED_ZERO), fixedDeltaTime_fp, massDecayFloor);
+            }
+        });
+    }
+
+    /**
+     * 处理服务器插入的加入指令，所有客户端在同一帧为中途加入的玩家生成小球
+     */
+    private handleJoinInputs(frameData: FrameData): void {
+        frameData.inputs.forEach(input => {
+            if (input.inputType !== InputType.JOIN || this._balls.has(input.playerId)) {
+                return;
+            }
+            this._scores.set(input.playerId, 0);
+            this.spawnBall(input.playerId, this._balls.size);
+            Logger.log('GameSimulation', `玩家 ${input.playerId} 在帧 ${frameData.frameId} 中途加入`);
+        });
+    }
+
+    /**
+     * 为玩家生成随机大小和出生位置的小球
+     */
+    private spawnBall(playerId: string, index: number): BallEntity {
+        const { ballMinRadius, ballMaxRadius } = this._params;
+
+        // 设置随机大小
+        const randomRadius = this.getRandom(RandomStream.SPAWN).nextFixedRange(ballMinRadius, ballMaxRadius);
+        Logger.log('GameSimulation', `玩家 ${playerId} 的球随机大小: ${toFloat(randomRadius).toFixed(2)} (范围: ${toFloat(ballMinRadius)}-${toFloat(ballMaxRadius)})`);
+
+        // 设置初始位置（传递球的半径）
+        const position = this.getSpawnPosition(index, randomRadius);
+        const ball = new BallEntity(playerId, randomRadius, position);
+        ball.movement = this._params.movement;
+
+        this._balls.set(playerId, ball);
+        if (this._players.indexOf(playerId) < 0) {
+            this._players.push(playerId);
+        }
+        return ball;
+    }
+
+    /**
+     * 获取出生位置
+     */
+    private getSpawnPosition(index: number, ballRadius: Fixed): FixedVec2 {
+        const { arenaHalfWidth, arenaHalfHeight } = this._params;
+        const baseDistance = fromInt(80); // 基础距离
+        const maxAttempts = 50; // 最大尝试次数
+        const radius = toFloat(ballRadius); // 仅用于日志
+
+        // 计算可用的生成区域（考虑小球半径）
+        const halfSpawnWidth = fSub(arenaHalfWidth, ballRadius);
+        const halfSpawnHeight = fSub(arenaHalfHeight, ballRadius);
+        const random = this.getRandom(RandomStream.SPAWN);
+
+        // 尝试生成随机位置
+        for (let attempt = 0; attempt < maxAttempts; attempt++) {
+            // 使用确定性随机数生成器生成随机位置
+            const position = new FixedVec2(
+                random.nextFixedRange(fNeg(halfSpawnWidth), halfSpawnWidth),
+                random.nextFixedRange(fNeg(halfSpawnHeight), halfSpawnHeight)
+            );
+            const x = toFloat(position.x);
+            const y = toFloat(position.y);
+
+            Logger.log('GameSimulation', `尝试生成位置 ${attempt}: (${x.toFixed(2)}, ${y.toFixed(2)}), 球半径: ${radius.toFixed(2)}`);
+
+            // 检查与已有小球的距离
+            let validPosition = true;
+            for (const existingBall of this._balls.values()) {
+                if (existingBall.isAlive) {
+                    // 计算两球半径之和加上额外间距
+                    const requiredDistance = fAdd(fAdd(ballRadius, existingBall.radiusFp), baseDistance);
+
+                    if (position.distance(existingBall.position) < requiredDistance) {
+                        validPosition = false;
+                        break;
+                    }
+                }
+            }
+
+            if (validPosition) {
+                Logger.log('GameSimulation', `成功生成位置 (${x.toFixed(2)}, ${y.toFixed(2)}), 尝试次数: ${attempt + 1}`);
+                return position;
+            }
+        }
+
+        // 如果随机生成失败，使用固定位置作为备用
+        const safeMargin = fAdd(ballRadius, fromInt(50)); // 确保球不会超出边界
+        const limit = fromInt(200);
+        const offsetX = fSub(arenaHalfWidth, safeMargin) < limit ? fSub(arenaHalfWidth, safeMargin) : limit;
+        const offsetY = fSub(arenaHalfHeight, safeMargin) < limit ? fSub(arenaHalfHeight, safeMargin) : limit;
+        const fallbackPositions = [
+            new FixedVec2(fNeg(offsetX), FIXED_ZERO),
+            new FixedVec2(offsetX, FIXED_ZERO),
+            new FixedVec2(FIXED_ZERO, offsetY),
+            new FixedVec2(FIXED_ZERO, fNeg(offsetY))
+        ];
+
+        const fallbackPosition = fallbackPositions[index % fallbackPositions.length];
+        Logger.log('GameSimulation', `使用回退位置 (${toFloat(fallbackPosition.x).toFixed(2)}, ${toFloat(fallbackPosition.y).toFixed(2)}), 球半径: ${radius.toFixed(2)}`);
+        return fallbackPosition;
+    }
+
+    /**
+     * 获取场地边界（定点数）
+     */
+    private getArenaBounds(): ArenaBounds {
+        const { arenaHalfWidth, arenaHalfHeight } = this._params;
+        return {
+            left: fNeg(arenaHalfWidth),
+            right: arenaHalfWidth,
+            top: arenaHalfHeight,
+            bottom: fNeg(arenaHalfHeight)
+        };
+    }
+
+    /**
+     * 检测所有存活小球之间的接触
+     * 先用空间哈希筛出包围盒相交的球对，再逐对精确检测；
+     * 小球按加入顺序登记，候选对的顺序与逐对比较所有球时相同
+     */
+    private detectContacts(): void {
+        this._broadphase.clear();
+        this._balls.forEach(ball => {
+            if (ball.isAlive) {
+                this._broadphase.insert(ball, ball.getBounds());
+            }
+        });
+
+        this._contacts = [];
+        this._broadphase.queryPairs().forEach(([a, b]) => {
+            if (a.checkCollisionWith(b)) {
+                this._contacts.push({ a: a, b: b, handled: false });
+            }
+        });
+    }
+
+    /**
+     * 吃食物：与食物接触的球吃掉食物，获得积分并增加质量
+     * 食物按池中顺序处理，同时接触多个球时归先加入的球
+     */
+    private eatPellets(frameId: number): void {
+        const { pelletRadius, pelletMass, pelletScore, pelletRespawnFrames, maxRadius } = this._params;
+        this._pellets.pellets.forEach(pellet => {
+            if (!pellet.isActive) {
+                return;
+            }
+            const { x, y } = pellet.position;
+            const bounds = { minX: fSub(x, pelletRadius), minY: fSub(y, pelletRadius), maxX: fAdd(x, pelletRadius), maxY: fAdd(y, pelletRadius) };
+            const eater = this._broadphase.query(bounds).find(ball =>
+                ball.isAlive && ball.position.distance(pellet.position) < fAdd(ball.radiusFp, pelletRadius));
+            if (eater) {
+                this._pellets.consume(pellet, frameId + pelletRespawnFrames);
+                eater.grow(pelletMass, maxRadius);
+                // 变大后更新网格中的包围盒，后面的食物按新的大小查找
+                this._broadphase.update(eater, eater.getBounds());
+                this.addScore(eater.playerId, pelletScore);
+            }
+        });
+    }
+
+    /**
+     * 让到期的食物在随机位置重新出现（开局时放置所有食物）
+     */
+    private respawnPellets(frameId: number): void {
+        this._pellets.getDue(frameId).forEach(pellet => this.placePellet(pellet));
+    }
+
+    /**
+     * 在场地内随机放置食物，位置来自食物子流
+     */
+    private placePellet(pellet: Pellet): void {
+        const { arenaHalfWidth, arenaHalfHeight, pelletRadius } = this._params;
+        const random = this.getRandom(RandomStream.PICKUP);
+        const rangeX = fSub(arenaHalfWidth, pelletRadius);
+        const rangeY = fSub(arenaHalfHeight, pelletRadius);
+        this._pellets.place(pellet, random.nextFixedRange(fNeg(rangeX), rangeX), random.nextFixedRange(fNeg(rangeY), rangeY));
+    }
+
+    /**
+     * 吃球规则：半径超过对方 eatRadiusRatio 倍的球吃掉对方，其余接触交给碰撞响应
+     */
+    private applyEatRule(): void {
+        const { eatRadiusRatio } = this._params;
+        this._contacts.forEach(contact => {
+            const { a, b } = contact;
+            if (contact.handled || !a.isAlive || !b.isAlive) {
+                return;
+            }
+            if (a.radiusFp > fMul(b.radiusFp, eatRadiusRatio)) {
+                this.consumeBall(a, b);
+                contact.handled = true;
+            } else if (b.radiusFp > fMul(a.radiusFp, eatRadiusRatio)) {
+                this.consumeBall(b, a);
+                contact.handled = true;
+            }
+        });
+    }
+
+    /**
+     * 碰撞响应：分开仍然重叠的球并交换动量
+     * 按检测顺序依次处理，每对球使用处理时的最新位置
+     */
+    private resolveContacts(): void {
+        const { restitution, wallBounce } = this._params;
+        const bounds = this.getArenaBounds();
+        this._contacts.forEach(contact => {
+            const { a, b } = contact;
+            if (contact.handled || !a.isAlive || !b.isAlive) {
+                return;
+            }
+            if (resolveBallContact(a, b, restitution)) {
+                // 被推开的球不能越过边界
+                a.checkBoundaries(bounds, wallBounce);
+                b.checkBoundaries(bounds, wallBounce);
+            }
+            contact.handled = true;
+        });
+    }
+
+    /**
+     * 吃掉另一个球并计分
+     */
+    private consumeBall(eater: BallEntity, target: BallEntity): void {
+        if (!target.isAlive) {
+            return;
+        }
+        const { absorbRatio, scorePerRadius, maxRadius } = this._params;
+        const score = eater.consume(target, absorbRatio, scorePerRadius, maxRadius);
+        this.addScore(eater.playerId, score);
+        Logger.log('GameSimulation', `球 ${eater.playerId} 吃掉了球 ${target.playerId}，获得积分: ${score}，新半径: ${eater.radius.toFixed(2)}`);
+    }
+
+    /**
+     * 清理死亡的球
+     */
+    private cleanupDeadBalls(): void {
+        const deadBalls: string[] = [];
+        this._balls.forEach((ball, playerId) => {
+            if (!ball.isAlive) {
+                deadBalls.push(playerId);
+            }
+        });
+
+        // 延迟清理，避免在遍历时修改集合
+        deadBalls.forEach(playerId => {
+            this._balls.delete(playerId);
+            if (this.isSinglePlayer) {
+                Logger.log('GameSimulation', `单人模式：球 ${playerId} 被消除，最终积分: ${this.getScore(playerId)}`);
+            } else {
+                Logger.log('GameSimulation', `球 ${playerId} 被消除`);
+            }
+        });
+    }
+
+    /**
+     * 检查游戏是否结束
+     */
+    private checkGameEnd(frameId: number): void {
+        // 单人模式下不检查游戏结束
+        if (this._gameOverFrame >= 0 || this.isSinglePlayer || !this._config.rules.lastBallWins) {
+            return;
+        }
+
+        const aliveBalls = Array.from(this._balls.values()).filter(ball => ball.isAlive);
+        if (aliveBalls.length <= 1) {
+            this._gameOverFrame = frameId;
+            this._winnerId = aliveBalls.length === 1 ? aliveBalls[0].playerId : null;
+        }
+    }
+
+    /**
+     * 为玩家增加积分
+     */
+    public addScore(playerId: string, score: number): void {
+        const currentScore = this.getScore(playerId);
+        this._scores.set(playerId, currentScore + score);
+        Logger.log('GameSimulation', `玩家 ${playerId} 获得积分: ${score}，总积分: ${currentScore + score}`);
+    }
+
+    /**
+     * 获取玩家积分
+     */
+    public getScore(playerId: string): number {
+        return this._scores.get(playerId) || 0;
+    }
+
+    /**
+     * 获取所有玩家积分
+     */
+    public getScores(): Map<string, number> {
+        return new Map(this._scores);
+    }
+
+    /**
+     * 获取小球实体
+     */
+    public getBall(playerId: string): BallEntity | null {
+        return this._balls.get(playerId) || null;
+    }
+
+    /**
+     * 食物池（只读，供视图渲染）
+     */
+    public get pellets(): PelletField {
+        return this._pellets;
+    }
+
+    /**
+     * 本帧检测到的接触（COLLISION 阶段之后有效）
+     */
+    public get contacts(): readonly BallContact[] {
+        return this._contacts;
+    }
+
+    /**
+     * 获取所有小球实体（按生成顺序）
+     */
+    public get balls(): BallEntity[] {
+        return Array.from(this._balls.values());
+    }
+
+    /**
+     * 获取随机子流，由对局种子和名称派生
+     */
+    public getRandom(stream: string): DeterministicRandom {
+        return this._random.get(stream);
+    }
+
+    /**
+     * 对局种子
+     */
+    public get randomSeed(): number {
+        return this._random.seed;
+    }
+
+    /**
+     * 是否为单人对局
+     */
+    public get isSinglePlayer(): boolean {
+        return this._players.length === 1;
+    }
+
+    /**
+     * 游戏是否已结束
+     */
+    public get isGameOver(): boolean {
+        return this._gameOverFrame >= 0;
+    }
+
+    /**
+     * 游戏结束的帧，未结束时为 -1
+     */
+    public get gameOverFrame(): number {
+        return this._gameOverFrame;
+    }
+
+    /**
+     * 获胜者ID，平局或未结束时为 null
+     */
+    public get winnerId(): string {
+        return this._winnerId;
+    }
+
+    /**
+     * 保存确定性状态
+     */
+    public saveState(): SimulationState {
+        return {
+            balls: Array.from(this._balls.values()).map(ball => ball.saveState()),
+            scores: Array.from(this._scores.entries()),
+            randomSeed: this._random.seed,
+            randomStreams: this._random.saveState(),
+            pellets: this._pellets.saveState(),
+            players: this._players.slice(),
+            gameOverFrame: this._gameOverFrame,
+            winnerId: this._winnerId
+        };
+    }
+
+    /**
+     * 恢复确定性状态
+     */
+    public restoreState(state: SimulationState): void {
+        this._balls.clear();
+        state.balls.forEach(ballState => {
+            const ball = BallEntity.fromState(ballState);
+            ball.movement = this._params.movement;
+            this._balls.set(ball.playerId, ball);
+        });
+        this._scores = new Map(state.scores);
+        this._random.restoreState(state.randomSeed, state.randomStreams);
+        this._pellets.restoreState(state.pellets);
+        this._players = state.players.slice();
+        this._contacts = [];
+        this._broadphase.clear();
+        this._gameOverFrame = state.gameOverFrame;
+        this._winnerId = state.winnerId;
+    }
+
+    /**
+     * 计算当前确定性状态的哈希值
+     */
+    public computeHash(frameId: number): number {
+        const hash = new StateHash();
+        hash.addInt(frameId);
+
+        const playerIds = Array.from(this._balls.keys()).sort();
+        playerIds.forEach(playerId => {
+            const ball = this._balls.get(playerId);
+            hash.addString(playerId)
+                .addBool(ball.isAlive)
+                .addInt(ball.position.x)
+                .addInt(ball.position.y)
+                .addInt(ball.velocity.x)
+                .addInt(ball.velocity.y)
+                .addInt(ball.moveDirection.x)
+                .addInt(ball.moveDirection.y)
+                .addInt(ball.radiusFp);
+        });
+
+        const scoreIds = Array.from(this._scores.keys()).sort();
+        scoreIds.forEach(playerId => {
+            hash.addString(playerId).addInt(this._scores.get(playerId));
+        });
+
+        this._pellets.addToHash(hash);
+        this._random.addToHash(hash);
+        return hash.digest();
+    }
+}
@@ -0,0 +1,245 @@
+import { Fixed, FIXED_ONE, fromFloat, fromInt, fAdd, fSub, fMul, fDiv } from '../../Framework/FrameSync/FixedPoint';
+
+/**
+ * 移动模型
+ */
+export enum MovementModel {
+    DIRECT = 'direct', // 输入直接决定速度，没有惯性
+    INERTIA = 'inertia' // 以有限的加速度趋向输入的目标速度，并受线性阻力影响
+}
+
+/**
+ * 球半径的上限：质量取半径的平方，181² = 32761 仍在 Q16.16 定点数范围（< 32768）内
+ */
+export const MAX_BALL_RADIUS = 181;
+
+/**
+ * 曲线上的点 [半径, 值]
+ * 曲线由按半径升序排列的点组成，点之间线性插值，两端之外取端点的值
+ */
+export type CurvePoint = [number, number];
+
+/**
+ * 对局规则选项
+ */
+export interface MatchRules {
+    movementModel: MovementModel;
+    maxSpeed: number; // 最大移动速度
+    acceleration: number; // 趋向目标速度的加速度（像素/秒²，仅惯性模型）
+    drag: number; // 线性阻力系数（每秒损失的速度比例，仅惯性模型）
+    speedCurve: CurvePoint[]; // 半径 → 最大速度倍率，球越大越慢
+    massDecayCurve: CurvePoint[]; // 半径 → 每秒损失的质量比例，大球逐渐变小
+    massDecayFloor: number; // 质量衰减不会使半径低于此值
+    pelletCount: number; // 场上食物的数量，0 表示没有食物
+    pelletRadius: number; // 食物半径
+    pelletMass: number; // 吃掉一个食物增加的质量（与球的质量一样取半径的平方）
+    pelletScore: number; // 吃掉一个食物获得的积分
+    pelletRespawnTime: number; // 食物被吃掉后重新出现的时间（秒）
+    wallBounce: number; // 撞墙后保留的速度比例
+    absorbRatio: number; // 吃球时吸收对方面积的比例
+    eatRadiusRatio: number; // 半径超过对方此倍数时才能吃掉对方，否则两球相互弹开
+    restitution: number; // 两球碰撞的恢复系数，1 为完全弹性碰撞
+    scorePerRadius: number; // 吃掉一个球获得的积分 = 对方半径 × 此值
+    maxRadius: number; // 球的半径上限（不超过 MAX_BALL_RADIUS，保证质量在定点数范围内）
+    lastBallWins: boolean; // 只剩一个球时结束游戏（单人模式除外）
+}
+
+/**
+ * 对局配置
+ * 由服务器在 gameStart 中下发，所有客户端在第0帧之前应用，保证各端模拟参数一致
+ */
+export interface MatchConfig {
+    frameRate: number; // 逻辑帧率
+    maxPlayers: number;
+    arenaWidth: number;
+    arenaHeight: number;
+    ballMinRadius: number; // 球的最小半径
+    ballMaxRadius: number; // 球的最大半径
+    rules: MatchRules;
+}
+
+/**
+ * 可部分指定的对局配置
+ */
+export type MatchConfigOverrides = Partial<Omit<MatchConfig, 'rules'>> & { rules?: Partial<MatchRules> };
+
+/**
+ * 默认对局配置
+ */
+export const DEFAULT_MATCH_CONFIG: MatchConfig = {
+    frameRate: 30,
+    maxPlayers: 4,
+    arenaWidth: 720,
+    arenaHeight: 1280,
+    ballMinRadius: 15,
+    ballMaxRadius: 35,
+    rules: {
+        movementModel: MovementModel.INERTIA,
+        maxSpeed: 200,
+        acceleration: 800,
+        drag: 1.5,
+        speedCurve: [[15, 1], [40, 0.85], [80, 0.6], [160, 0.4]],
+        massDecayCurve: [[40, 0], [80, 0.005], [160, 0.02]],
+        massDecayFloor: 40,
+        pelletCount: 60,
+        pelletRadius: 5,
+        pelletMass: 60,
+        pelletScore: 1,
+        pelletRespawnTime: 8,
+        wallBounce: 0.8,
+        absorbRatio: 0.8,
+        eatRadiusRatio: 1.1,
+        restitution: 0.8,
+        scorePerRadius: 2,
+        maxRadius: 160,
+        lastBallWins: true
+    }
+};
+
+/**
+ * 在基础配置上应用覆盖项，返回新的完整配置
+ */
+export function mergeMatchConfig(base: MatchConfig, overrides: MatchConfigOverrides = {}): MatchConfig {
+    return {
+        ...base,
+        ...overrides,
+        rules: { ...base.rules, ...(overrides.rules || {}) }
+    };
+}
+
+/**
+ * 检查对局配置中的半径是否在允许范围内，返回所有问题（为空表示配置有效）
+ * 服务器在下发配置前检查；toFixedMatchParams 换算时也会按同样的范围截断，保证各端参数一致
+ */
+export function validateMatchConfig(config: MatchConfig): string[] {
+    const errors: string[] = [];
+    const { ballMinRadius, ballMaxRadius } = config;
+    const { maxRadius } = config.rules;
+    if (!Number.isFinite(maxRadius) || maxRadius <= 0 || maxRadius > MAX_BALL_RADIUS) {
+        errors.push(`maxRadius 必须在 (0, ${MAX_BALL_RADIUS}] 范围内: ${maxRadius}`);
+    }
+    if (!Number.isFinite(ballMinRadius) || ballMinRadius <= 0) {
+        errors.push(`ballMinRadius 必须为正数: ${ballMinRadius}`);
+    }
+    if (!Number.isFinite(ballMaxRadius) || ballMaxRadius < ballMinRadius || ballMaxRadius > maxRadius) {
+        errors.push(`ballMaxRadius 必须在 [ballMinRadius, maxRadius] 范围内: ${ballMaxRadius}`);
+    }
+    return errors;
+}
+
+/**
+ * 换算为定点数的曲线点
+ */
+export interface FixedCurvePoint {
+    x: Fixed;
+    y: Fixed;
+}
+
+/**
+ * 换算为定点数的曲线（点按 x 升序排列）
+ */
+export type FixedCurve = FixedCurvePoint[];
+
+/**
+ * 将曲线换算为定点数，并按 x 排序
+ */
+export function toFixedCurve(points: CurvePoint[]): FixedCurve {
+    return points
+        .map(([x, y]) => ({ x: fromFloat(x), y: fromFloat(y) }))
+        .sort((a, b) => a.x - b.x);
+}
+
+/**
+ * 求曲线在 x 处的值（定点数线性插值），空曲线返回 defaultValue
+ */
+export function evaluateCurve(curve: FixedCurve, x: Fixed, defaultValue: Fixed = FIXED_ONE): Fixed {
+    if (curve.length === 0) {
+        return defaultValue;
+    }
+    if (x <= curve[0].x) {
+        return curve[0].y;
+    }
+    for (let i = 1; i < curve.length; i++) {
+        const next = curve[i];
+        if (x < next.x) {
+            const prev = curve[i - 1];
+            const t = fDiv(fSub(x, prev.x), fSub(next.x, prev.x));
+            return fAdd(prev.y, fMul(fSub(next.y, prev.y), t));
+        }
+    }
+    return curve[curve.length - 1].y;
+}
+
+/**
+ * 小球的移动参数（定点数）
+ */
+export interface MovementParams {
+    model: MovementModel;
+    maxSpeed: Fixed; // 基础最大速度，实际最大速度还要乘以速度曲线上的倍率
+    acceleration: Fixed;
+    drag: Fixed;
+    speedCurve: FixedCurve;
+}
+
+/**
+ * 换算为定点数的对局参数
+ * 配置以浮点数下发，开局时一次性转换，模拟过程中只使用这里的定点数
+ */
+export interface FixedMatchParams {
+    fixedDeltaTime: Fixed; // 逻辑帧间隔（秒）
+    arenaHalfWidth: Fixed;
+    arenaHalfHeight: Fixed;
+    ballMinRadius: Fixed;
+    ballMaxRadius: Fixed;
+    movement: MovementParams;
+    wallBounce: Fixed;
+    absorbRatio: Fixed;
+    eatRadiusRatio: Fixed;
+    restitution: Fixed;
+    scorePerRadius: Fixed;
+    maxRadius: Fixed;
+    massDecayCurve: FixedCurve;
+    massDecayFloor: Fixed;
+    pelletCount: number;
+    pelletRadius: Fixed;
+    pelletMass: Fixed;
+    pelletScore: number;
+    pelletRespawnFrames: number; // 食物重生间隔（帧数，至少 1 帧）
+}
+
+/**
+ * 将对局配置换算为定点数参数
+ */
+export function toFixedMatchParams(config: MatchConfig): FixedMatchParams {
+    // 半径截断到允许范围：半径上限不超过 MAX_BALL_RADIUS，初始半径不超过半径上限
+    const maxRadius = Math.min(Math.max(config.rules.maxRadius, 1), MAX_BALL_RADIUS);
+    const ballMaxRadius = Math.min(Math.max(config.ballMaxRadius, 1), maxRadius);
+    const ballMinRadius = Math.min(Math.max(config.ballMinRadius, 1), ballMaxRadius);
+    return {
+        fixedDeltaTime: fDiv(FIXED_ONE, fromInt(config.frameRate)),
+        arenaHalfWidth: fromFloat(config.arenaWidth / 2),
+        arenaHalfHeight: fromFloat(config.arenaHeight / 2),
+        ballMinRadius: fromFloat(ballMinRadius),
+        ballMaxRadius: fromFloat(ballMaxRadius),
+        movement: {
+            model: config.rules.movementModel,
+            maxSpeed: fromFloat(config.rules.maxSpeed),
+            acceleration: fromFloat(config.rules.acceleration),
+            drag: fromFloat(config.rules.drag),
+            speedCurve: toFixedCurve(config.rules.speedCurve)
+        },
+        wallBounce: fromFloat(config.rules.wallBounce),
+        absorbRatio: fromFloat(config.rules.absorbRatio),
+        eatRadiusRatio: fromFloat(config.rules.eatRadiusRatio),
+        restitution: fromFloat(config.rules.restitution),
+        scorePerRadius: fromFloat(config.rules.scorePerRadius),
+        maxRadius: fromFloat(maxRadius),
+        massDecayCurve: toFixedCurve(config.rules.massDecayCurve),
+        massDecayFloor: fromFloat(config.rules.massDecayFloor),
+        pelletCount: Math.max(0, Math.floor(config.rules.pelletCount)),
+        pelletRadius: fromFloat(config.rules.pelletRadius),
+        pelletMass: fromFloat(config.rules.pelletMass),
+        pelletScore: Math.floor(config.rules.pelletScore),
+        pelletRespawnFrames: Math.max(1, Math.round(config.rules.pelletRespawnTime * config.frameRate))
+    };
+}
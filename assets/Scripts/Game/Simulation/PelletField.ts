@@ -0,0 +1,132 @@
+import { Fixed, FixedVec2, fromRaw } from '../../Framework/FrameSync/FixedPoint';
+import { StateHash } from '../../Framework/FrameSync/StateHash';
+
+/**
+ * 食物的确定性状态，位置保存定点数的底层整数值
+ */
+export interface PelletState {
+    x: number;
+    y: number;
+    respawnFrame: number; // 被吃掉后重新出现的帧，-1 表示在场上
+}
+
+/**
+ * 食物（场上可以被吃掉的小颗粒）
+ */
+export class Pellet {
+    public readonly slot: number; // 在食物池中的位置，同时作为食物的编号
+    public readonly position: FixedVec2 = new FixedVec2();
+    public respawnFrame: number = 0; // 新建的食物等待第一次放置
+
+    constructor(slot: number) {
+        this.slot = slot;
+    }
+
+    /**
+     * 是否在场上
+     */
+    public get isActive(): boolean {
+        return this.respawnFrame < 0;
+    }
+}
+
+/**
+ * 食物池
+ * 食物数量固定，被吃掉的食物只是标记为等待重生，到期后在新位置重新出现，对局中不再创建新对象；
+ * 所有遍历都按池中的位置顺序进行，保证各端处理顺序一致
+ */
+export class PelletField {
+    private _pellets: Pellet[] = [];
+    private _version: number = 0; // 食物变化时递增，供视图判断是否需要重绘（不属于确定性状态）
+
+    /**
+     * 清空并按数量重建食物池，所有食物等待放置
+     */
+    public reset(count: number): void {
+        this._pellets = [];
+        for (let slot = 0; slot < count; slot++) {
+            this._pellets.push(new Pellet(slot));
+        }
+        this._version++;
+    }
+
+    /**
+     * 池中的所有食物（包括等待重生的）
+     */
+    public get pellets(): readonly Pellet[] {
+        return this._pellets;
+    }
+
+    /**
+     * 场上的食物数量
+     */
+    public get activeCount(): number {
+        return this._pellets.filter(pellet => pellet.isActive).length;
+    }
+
+    /**
+     * 食物变化的版本号
+     */
+    public get version(): number {
+        return this._version;
+    }
+
+    /**
+     * 在指定位置放置食物
+     */
+    public place(pellet: Pellet, x: Fixed, y: Fixed): void {
+        pellet.position.set(x, y);
+        pellet.respawnFrame = -1;
+        this._version++;
+    }
+
+    /**
+     * 吃掉食物，在 respawnFrame 帧重生
+     */
+    public consume(pellet: Pellet, respawnFrame: number): void {
+        pellet.respawnFrame = respawnFrame;
+        this._version++;
+    }
+
+    /**
+     * 到指定帧为止应当重生的食物（按池中顺序）
+     */
+    public getDue(frameId: number): Pellet[] {
+        return this._pellets.filter(pellet => !pellet.isActive && pellet.respawnFrame <= frameId);
+    }
+
+    /**
+     * 保存所有食物的状态
+     */
+    public saveState(): PelletState[] {
+        return this._pellets.map(pellet => ({
+            x: pellet.position.x,
+            y: pellet.position.y,
+            respawnFrame: pellet.respawnFrame
+        }));
+    }
+
+    /**
+     * 恢复所有食物的状态
+     */
+    public restoreState(state: PelletState[]): void {
+        this.reset(state.length);
+        state.forEach((pelletState, slot) => {
+            const pellet = this._pellets[slot];
+            pellet.position.set(fromRaw(pelletState.x), fromRaw(pelletState.y));
+            pellet.respawnFrame = pelletState.respawnFrame;
+        });
+    }
+
+    /**
+     * 将所有食物的状态加入哈希
+     */
+    public addToHash(hash: StateHash): void {
+        hash.addInt(this._pellets.length);
+        this._pellets.forEach(pellet => {
+            hash.addInt(pellet.position.x)
+                .addInt(pellet.position.y)
+                .addInt(pellet.respawnFrame);
+        });
+    }
+}
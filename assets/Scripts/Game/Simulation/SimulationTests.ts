@@ -0,0 +1,237 @@
+import { FixedVec2, fromFloat, fromRaw, toFloat } from '../../Framework/FrameSync/FixedPoint';
+import { InputType } from '../../Framework/FrameSync/FrameTypes';
+import { BallEntity } from './BallEntity';
+import { computeContactGeometry, resolveBallContact } from './BallContact';
+import { GameSimulation } from './GameSimulation';
+import { MatchConfig, DEFAULT_MATCH_CONFIG, mergeMatchConfig, MovementModel, toFixedMatchParams, evaluateCurve, MAX_BALL_RADIUS } from './MatchConfig';
+
+/**
+ * 自检结果汇总：逐项记录检查结果，输出失败项和结论
+ */
+class SelfTestReport {
+    private _title: string;
+    private _failures: number = 0;
+
+    constructor(title: string) {
+        this._title = title;
+        console.log(`=== ${title} ===`);
+    }
+
+    /**
+     * 记录一项检查，不通过时输出检查名称和详情
+     */
+    public check(name: string, ok: boolean, detail: string): void {
+        if (!ok) {
+            this._failures++;
+            console.error(`${name}: ${detail}`);
+        }
+    }
+
+    /**
+     * 输出结论
+     * @returns 是否全部通过
+     */
+    public finish(): boolean {
+        console.log(this._failures === 0 ? `${this._title}全部通过` : `${this._title}失败 ${this._failures} 项`);
+        return this._failures === 0;
+    }
+}
+
+/**
+ * 测试两球碰撞响应：重叠被分开、动量守恒、法线方向的相对速度按恢复系数反向
+ * @returns 是否全部通过
+ */
+export function runBallCollisionTest(): boolean {
+    const report = new SelfTestReport('碰撞响应测试');
+    // 动量用浮点数比较，只用于测试
+    const momentum = (a: BallEntity, b: BallEntity) => ({
+        x: toFloat(a.mass) * toFloat(a.velocity.x) + toFloat(b.mass) * toFloat(b.velocity.x),
+        y: toFloat(a.mass) * toFloat(a.velocity.y) + toFloat(b.mass) * toFloat(b.velocity.y)
+    });
+
+    // [半径A, 半径B, 恢复系数, B 的 x 速度]，B 速度为正时两球正在分离
+    const cases: [number, number, number, number][] = [
+        [25, 25, 1, -60], [25, 25, 0.5, -60], [20, 40, 0.8, -60], [30, 30, 0, -60], [25, 25, 1, 150]
+    ];
+    cases.forEach(([radiusA, radiusB, restitution, speedB]) => {
+        const name = `r=${radiusA}/${radiusB} e=${restitution} vb=${speedB}`;
+        const a = new BallEntity('a', fromFloat(radiusA), FixedVec2.fromFloat(0, 0));
+        const b = new BallEntity('b', fromFloat(radiusB), FixedVec2.fromFloat(radiusA + radiusB - 5, 3));
+        a.velocity.set(fromFloat(100), fromFloat(0));
+        b.velocity.set(fromFloat(speedB), fromFloat(10));
+
+        const { normal } = computeContactGeometry(a, b);
+        const before = momentum(a, b);
+        const approachBefore = toFloat(b.velocity.clone().sub(a.velocity).dot(normal));
+        resolveBallContact(a, b, fromFloat(restitution));
+        const after = momentum(a, b);
+        const approachAfter = toFloat(b.velocity.clone().sub(a.velocity).dot(normal));
+
+        const gap = toFloat(a.position.distance(b.position)) - (radiusA + radiusB);
+        report.check(name, gap > -0.001, `分开后仍重叠 ${gap.toFixed(4)}`);
+        const drift = Math.max(Math.abs(after.x - before.x), Math.abs(after.y - before.y));
+        report.check(name, drift < Math.abs(before.x) * 0.001 + 0.1, `动量变化 ${drift.toFixed(4)}`);
+        const expected = approachBefore < 0 ? -restitution * approachBefore : approachBefore;
+        report.check(name, Math.abs(approachAfter - expected) < 0.01, `法向相对速度 ${approachAfter.toFixed(4)}, 期望 ${expected.toFixed(4)}`);
+    });
+
+    return report.finish();
+}
+
+/**
+ * 测试惯性移动模型：加速到目标速度、停止后减速到 0、撞墙反弹的速度不会被输入立即抵消
+ * @returns 是否全部通过
+ */
+export function runMovementModelTest(): boolean {
+    const report = new SelfTestReport('移动模型测试');
+    const config = mergeMatchConfig(DEFAULT_MATCH_CONFIG, { rules: { movementModel: MovementModel.INERTIA } });
+    const params = toFixedMatchParams(config);
+    const bounds = { left: fromFloat(-100), right: fromFloat(100), top: fromFloat(1000), bottom: fromFloat(-1000) };
+    const ball = new BallEntity('test', fromFloat(20), FixedVec2.fromFloat(0, 0));
+    ball.movement = params.movement;
+    const step = (frames: number) => {
+        for (let i = 0; i < frames; i++) {
+            ball.integrate(params.fixedDeltaTime, bounds, params.wallBounce);
+        }
+    };
+
+    ball.applyInput({ playerId: 'test', inputType: InputType.MOVE, inputData: { direction: { x: 0, y: 1 } }, timestamp: 0 });
+    report.check('加速', toFloat(ball.velocity.y) === 0, `输入后速度立即变为 ${toFloat(ball.velocity.y)}`);
+    step(1);
+    const firstFrameSpeed = toFloat(ball.velocity.y);
+    const maxSpeed = toFloat(ball.maxSpeed);
+    report.check('加速', firstFrameSpeed > 0 && firstFrameSpeed < maxSpeed, `第一帧速度 ${firstFrameSpeed.toFixed(2)}`);
+    step(config.frameRate);
+    report.check('加速', Math.abs(toFloat(ball.velocity.y) - maxSpeed) < 0.01, `1秒后速度 ${toFloat(ball.velocity.y).toFixed(2)}, 期望 ${maxSpeed.toFixed(2)}`);
+
+    ball.applyInput({ playerId: 'test', inputType: InputType.STOP, inputData: null, timestamp: 0 });
+    step(1);
+    report.check('减速', toFloat(ball.velocity.y) > 0, `停止后第一帧速度 ${toFloat(ball.velocity.y).toFixed(2)}`);
+    step(config.frameRate);
+    report.check('减速', ball.velocity.y === 0, `1秒后速度 ${toFloat(ball.velocity.y).toFixed(2)}`);
+
+    // 向右撞墙后改为向上移动，反弹得到的向左速度逐渐衰减
+    ball.velocity.set(ball.maxSpeed, fromFloat(0));
+    ball.position.set(fromFloat(75), fromFloat(0));
+    step(1);
+    report.check('反弹', ball.velocity.x < 0, `撞墙后 x 速度 ${toFloat(ball.velocity.x).toFixed(2)}`);
+    ball.applyInput({ playerId: 'test', inputType: InputType.MOVE, inputData: { direction: { x: 0, y: 1 } }, timestamp: 0 });
+    step(1);
+    report.check('反弹', ball.velocity.x < 0, `输入后 x 速度 ${toFloat(ball.velocity.x).toFixed(2)}`);
+
+    return report.finish();
+}
+
+/**
+ * 测试与大小相关的规则：最大速度随半径降低，大球的质量逐渐衰减且不低于下限
+ * 使用默认对局配置，结果不受当前对局覆盖项影响
+ * @returns 是否全部通过
+ */
+export function runSizeRulesTest(): boolean {
+    const report = new SelfTestReport('大小规则测试');
+    const config = mergeMatchConfig(DEFAULT_MATCH_CONFIG);
+    const params = toFixedMatchParams(config);
+    const ball = (radius: number) => {
+        const entity = new BallEntity('test', fromFloat(radius), FixedVec2.fromFloat(0, 0));
+        entity.movement = params.movement;
+        return entity;
+    };
+
+    // 速度曲线：随半径单调不增，端点处与配置一致
+    let lastSpeed = Infinity;
+    for (let radius = 10; radius <= config.rules.maxRadius; radius += 5) {
+        const speed = toFloat(ball(radius).maxSpeed);
+        report.check('速度曲线', speed <= lastSpeed, `半径 ${radius} 的最大速度 ${speed.toFixed(2)} 大于更小的球`);
+        lastSpeed = speed;
+    }
+    config.rules.speedCurve.forEach(([radius, scale]) => {
+        const speed = toFloat(ball(radius).maxSpeed);
+        report.check('速度曲线', Math.abs(speed - config.rules.maxSpeed * scale) < 0.01, `半径 ${radius} 的最大速度 ${speed.toFixed(2)}`);
+    });
+
+    // 质量衰减：大球逐渐变小，最终停在下限；下限以下的球不受影响
+    const big = ball(config.rules.maxRadius);
+    const small = ball(config.rules.massDecayFloor - 5);
+    let lastRadius = big.radius;
+    for (let frame = 0; frame < config.frameRate * 600; frame++) {
+        [big, small].forEach(entity => {
+            const rate = evaluateCurve(params.massDecayCurve, entity.radiusFp, fromRaw(0));
+            entity.decayMass(rate, params.fixedDeltaTime, params.massDecayFloor);
+        });
+        report.check('质量衰减', big.radius <= lastRadius, `第 ${frame} 帧半径增大到 ${big.radius.toFixed(4)}`);
+        lastRadius = big.radius;
+    }
+    report.check('质量衰减', big.radius < config.rules.maxRadius / 2, `10分钟后半径 ${big.radius.toFixed(2)}`);
+    report.check('质量衰减', big.radius >= config.rules.massDecayFloor, `半径 ${big.radius.toFixed(2)} 低于下限`);
+    report.check('质量衰减', small.radius === config.rules.massDecayFloor - 5, `下限以下的球半径变为 ${small.radius.toFixed(2)}`);
+
+    // 半径上限：超出定点数范围的 maxRadius 在换算时截断，最大的球也能正常衰减
+    const capped = toFixedMatchParams(mergeMatchConfig(config, { rules: { maxRadius: MAX_BALL_RADIUS * 2 } }));
+    report.check('半径上限', toFloat(capped.maxRadius) === MAX_BALL_RADIUS, `截断后的半径上限 ${toFloat(capped.maxRadius)}`);
+    const largest = ball(toFloat(capped.maxRadius));
+    try {
+        const rate = evaluateCurve(capped.massDecayCurve, largest.radiusFp, fromRaw(0));
+        largest.decayMass(rate, capped.fixedDeltaTime, capped.massDecayFloor);
+        report.check('半径上限', largest.radius < MAX_BALL_RADIUS, `衰减后半径 ${largest.radius.toFixed(2)}`);
+    } catch (e) {
+        report.check('半径上限', false, `最大的球衰减时出错: ${e}`);
+    }
+
+    return report.finish();
+}
+
+/**
+ * 测试食物：相同种子放置的食物位置相同且都在场地内，吃掉后获得积分和质量，到期后在新位置重生
+ * @param config 对局配置
+ * @returns 是否全部通过
+ */
+export function runPelletTest(config: MatchConfig): boolean {
+    const report = new SelfTestReport('食物测试');
+    const { rules } = config;
+    const simulations = [new GameSimulation(config), new GameSimulation(config)];
+    simulations.forEach(simulation => simulation.start(20240620, ['test']));
+    const [simulation, other] = simulations;
+    const pellets = simulation.pellets.pellets;
+
+    report.check('放置', pellets.length === rules.pelletCount && simulation.pellets.activeCount === rules.pelletCount, `场上食物 ${simulation.pellets.activeCount}/${pellets.length}`);
+    report.check('放置', JSON.stringify(simulation.pellets.saveState()) === JSON.stringify(other.pellets.saveState()), '相同种子放置的食物位置不同');
+    pellets.forEach(pellet => {
+        const x = Math.abs(toFloat(pellet.position.x)) + rules.pelletRadius;
+        const y = Math.abs(toFloat(pellet.position.y)) + rules.pelletRadius;
+        report.check('放置', x <= config.arenaWidth / 2 && y <= config.arenaHeight / 2, `食物 ${pellet.slot} 超出场地 (${x.toFixed(2)}, ${y.toFixed(2)})`);
+    });
+
+    // 把球移到第一个食物上，吃掉后检查积分、质量和重生
+    const ball = simulation.getBall('test');
+    const target = pellets[0];
+    const oldPosition = target.position.clone();
+    const oldMass = toFloat(ball.mass);
+    ball.position.set(target.position.x, target.position.y);
+    const respawnFrames = Math.max(1, Math.round(rules.pelletRespawnTime * config.frameRate));
+    const step = (frameId: number) => simulation.step({ frameId: frameId, inputs: [], timestamp: 0 });
+    step(0);
+    report.check('吃食物', !target.isActive && target.respawnFrame === respawnFrames, `食物状态 ${target.respawnFrame}`);
+    report.check('吃食物', simulation.getScore('test') >= rules.pelletScore, `积分 ${simulation.getScore('test')}`);
+    report.check('吃食物', toFloat(ball.mass) - oldMass > rules.pelletMass * 0.9, `质量增加 ${(toFloat(ball.mass) - oldMass).toFixed(2)}`);
+
+    // 移走球，避免食物重生后立即被吃掉
+    ball.position.set(fromFloat(-config.arenaWidth / 2 + ball.radius), fromFloat(-config.arenaHeight / 2 + ball.radius));
+    for (let frameId = 1; frameId < respawnFrames; frameId++) {
+        step(frameId);
+    }
+    report.check('重生', !target.isActive, '食物在到期之前重生');
+    step(respawnFrames);
+    report.check('重生', target.isActive && !target.position.equals(oldPosition), '食物没有在新位置重生');
+
+    // 同一帧内吃到食物变大后，后面的食物按变大后的大小判断
+    const grower = other.getBall('test');
+    const [first, second] = other.pellets.pellets;
+    const grownRadius = Math.sqrt(grower.radius * grower.radius + rules.pelletMass);
+    grower.position.set(fromFloat(0), fromFloat(0));
+    first.position.set(grower.position.x, grower.position.y);
+    second.position.set(fromFloat(grower.radius + rules.pelletRadius + (grownRadius - grower.radius) / 2), fromFloat(0));
+    other.step({ frameId: 0, inputs: [], timestamp: 0 });
+    report.check('吃食物', !first.isActive && !second.isActive, '球变大后没有吃到进入范围的食物');
+
+    return report.finish();
+}
@@ -1,5 +1,13 @@
 const WebSocket = require('ws');
 const http = require('http');
+// 与客户端共用的确定性模拟，由 npm run build:shared 从 assets/Scripts 编译生成
+const { GameSimulation } = require('./shared/Game/Simulation/GameSimulation');
+const { DEFAULT_MATCH_CONFIG, mergeMatchConfig, validateMatchConfig } = require('./shared/Game/Simulation/MatchConfig');
+const { setFixedPointDebug } = require('./shared/Framework/FrameSync/FixedPoint');
+const { InputType } = require('./shared/Framework/FrameSync/FrameTypes');
+
+// 设置环境变量 FIXED_POINT_DEBUG=1 时检查定点数是否超出32位范围（与客户端调试构建一致）
+setFixedPointDebug(process.env.FIXED_POINT_DEBUG === '1');
 
 /**
  * 简单的WebSocket服务器用于帧同步测试
@@ -11,9 +19,28 @@ class FrameSyncServer {
         this.wss = null;
         this.rooms = new Map();
         this.clients = new Map();
-        this.frameRate = 30;
-        this.frameInterval = 1000 / this.frameRate;
         this.gameLoops = new Map();
+        this.reconnectGracePeriod = 30000; // 断线玩家保留席位的时间（毫秒）
+        this.snapshotTimeout = 2000; // 等待其他玩家提供状态快照的超时时间（毫秒）
+        this.checksumInterval = 30; // 与客户端一致：每隔多少帧校验一次状态哈希
+        this.pauseVoteTimeout = 10000; // 暂停投票的超时时间（毫秒）
+        this.resumeCountdown = 3; // 恢复游戏前的倒计时（秒）
+        this.maxRedundantFrames = 4; // 每条帧消息最多附带的未确认历史帧数
+        this.maxResendFrames = 60; // 单次重发请求最多返回的帧数
+        this.spectatorDelay = 3000; // 观战者收到的帧相对实时的延迟（毫秒），避免观战者向玩家透露实时信息
+        // 观战者只能收帧和测量时延，不能输入或参与校验、投票
+        this.spectatorMessages = new Set(['spectateRoom', 'leaveRoom', 'frameAck', 'resendFrames', 'ping']);
+        // 客户端可以发送的输入类型，其他类型（如中途加入）只能由服务器插入
+        this.clientInputTypes = new Set([InputType.MOVE, InputType.STOP]);
+        // 对局配置（帧率、场地、球大小、人数和规则），开局时下发给客户端，在第0帧之前应用
+        this.matchConfig = mergeMatchConfig(DEFAULT_MATCH_CONFIG, {
+            maxPlayers: 2
+        });
+        // 超出范围的配置会使定点数溢出，拒绝启动而不是下发给客户端
+        const configErrors = validateMatchConfig(this.matchConfig);
+        if (configErrors.length > 0) {
+            throw new RangeError(`对局配置无效: ${configErrors.join('; ')}`);
+        }
     }
 
     start() {
@@ -30,7 +57,8 @@ class FrameSyncServer {
             this.clients.set(clientId, {
                 ws: ws,
                 playerId: null,
-                roomId: null
+                roomId: null,
+                isSpectator: false
             });
             
             // 处理消息
@@ -75,6 +103,7 @@ class FrameSyncServer {
     }
 
     handleMessage(clientId, data) {
+        const receiveTime = Date.now();
         try {
             const message = JSON.parse(data);
             const client = this.clients.get(clientId);
@@ -82,6 +111,11 @@ class FrameSyncServer {
             if (!client) {
                 return;
             }
+
+            if (client.isSpectator && !this.spectatorMessages.has(message.type)) {
+                console.warn(`观战者 ${client.playerId} 发送了不允许的消息 ${message.type}，已忽略`);
+                return;
+            }
             
             switch (message.type) {
                 case 'joinRoom':
@@ -99,6 +133,39 @@ class FrameSyncServer {
                 case 'gameStart':
                     this.handleGameStart(clientId, message.data);
                     break;
+                case 'stateHash':
+                    this.handleStateHash(clientId, message.data);
+                    break;
+                case 'rejoinRoom':
+                    this.handleRejoinRoom(clientId, message.data);
+                    break;
+                case 'stateSnapshot':
+                    this.handleStateSnapshot(clientId, message.data);
+                    break;
+                case 'resultReport':
+                    this.handleResultReport(clientId, message.data);
+                    break;
+                case 'pauseRequest':
+                    this.handlePauseRequest(clientId, message.data);
+                    break;
+                case 'pauseVote':
+                    this.handlePauseVote(clientId, message.data);
+                    break;
+                case 'resumeRequest':
+                    this.handleResumeRequest(clientId, message.data);
+                    break;
+                case 'frameAck':
+                    this.handleFrameAck(clientId, message.data);
+                    break;
+                case 'resendFrames':
+                    this.handleResendFrames(clientId, message.data);
+                    break;
+                case 'ping':
+                    this.handlePing(clientId, message.data, receiveTime);
+                    break;
+                case 'spectateRoom':
+                    this.handleSpectateRoom(clientId, message.data);
+                    break;
             }
         } catch (error) {
             console.error('处理消息错误:', error);
@@ -107,15 +174,26 @@ class FrameSyncServer {
 
     handleFindOrCreateRoom(clientId, data) {
         let joined = false;
-        // 查找一个正在等待且未满的房间 (假设最大玩家数为2)
+        // 查找一个正在等待且未满的房间
         for (const [roomId, room] of this.rooms) {
-            if (room.gameState === 'waiting' && room.players.size < 2) {
+            if (room.gameState === 'waiting' && room.players.size < room.matchConfig.maxPlayers) {
                 this.handleJoinRoom(clientId, { roomId, playerId: data.playerId });
                 joined = true;
                 break;
             }
         }
 
+        // 其次中途加入一个正在进行且未满的房间
+        if (!joined) {
+            for (const [roomId, room] of this.rooms) {
+                if (room.gameState === 'playing' && room.players.size < room.matchConfig.maxPlayers) {
+                    this.handleJoinRoom(clientId, { roomId, playerId: data.playerId });
+                    joined = true;
+                    break;
+                }
+            }
+        }
+
         // 如果没有找到合适的房间，则创建一个新房间
         if (!joined) {
             const newRoomId = 'room_' + Date.now().toString(36) + Math.random().toString(36).substr(2, 5);
@@ -136,15 +214,38 @@ class FrameSyncServer {
             this.rooms.set(roomId, {
                 id: roomId,
                 players: new Map(),
+                spectators: new Map(), // spectatorId -> { spectatorId, clientId, ackedFrame }，不占玩家名额
                 gameState: 'waiting',
                 currentFrame: 0,
                 inputBuffer: new Map(),
+                stateHashes: new Map(), // frameId -> Map<playerId, hash>
+                desyncFrame: null, // 首个不同步的帧
+                frameHistory: [], // 本局所有已发送的帧，用于断线重连和中途加入追帧
+                randomSeed: 0,
+                startPlayers: [], // 游戏开始时的玩家列表
+                pendingSnapshots: new Map(), // requestId -> { targetClientId, timer }
+                simulation: null, // 服务器权威模拟
+                serverHashes: new Map(), // frameId -> 服务器计算的状态哈希
+                result: null, // 服务器判定的对局结果
+                pauseVote: null, // 进行中的暂停投票 { id, requesterId, votes, timer }
+                resumeTimer: null, // 恢复倒计时
+                matchConfig: mergeMatchConfig(this.matchConfig), // 本房间的对局配置
                 ownerId: null // 新增房主ID
             });
         }
         
         const room = this.rooms.get(roomId);
 
+        // 人数已满时拒绝加入（游戏进行中加入同样占用名额），与匹配房间时的判断一致
+        if (!room.players.has(playerId) && room.players.size >= room.matchConfig.maxPlayers) {
+            console.log(`玩家 ${playerId} 加入房间 ${roomId} 失败: 房间已满 (${room.players.size}/${room.matchConfig.maxPlayers})`);
+            this.sendToClient(clientId, {
+                type: 'joinFailed',
+                data: { roomId: roomId, reason: 'roomFull' }
+            });
+            return;
+        }
+
         // 如果是第一个加入的玩家，则设为房主
         if (room.players.size === 0) {
             room.ownerId = playerId;
@@ -154,6 +255,11 @@ class FrameSyncServer {
         room.players.set(playerId, {
             playerId: playerId,
             clientId: clientId,
+            connected: true,
+            disconnectTimer: null,
+            desyncFrame: null, // 与服务器状态首个不一致的帧
+            ackedFrame: -1, // 客户端确认已连续收到的最高帧
+            lastInputSequence: 0, // 已接收的最高输入序号，用于丢弃重复和过期的输入
             position: { x: 0, y: 0 },
             velocity: { x: 0, y: 0 }
         });
@@ -185,6 +291,298 @@ class FrameSyncServer {
         
         console.log(`玩家 ${playerId} 加入房间 ${roomId}, 房主是 ${room.ownerId}`);
         this.broadcastRoomState(roomId);
+
+        // 游戏进行中加入：在下一帧插入加入指令让所有客户端在同一帧生成小球，并为新玩家同步状态
+        if (this.isInGame(room)) {
+            this.addSystemInput(room, room.currentFrame + 1, {
+                playerId: playerId,
+                inputType: 'join',
+                inputData: null,
+                timestamp: Date.now()
+            });
+            this.requestSnapshot(room, clientId);
+        }
+    }
+
+    /**
+     * 以观战者身份进入房间，不指定房间时选择一个正在对局的房间
+     * 观战者收到房间信息、开局数据和延迟的帧流，不占玩家名额
+     */
+    handleSpectateRoom(clientId, data) {
+        const client = this.clients.get(clientId);
+        if (!client) {
+            return;
+        }
+
+        let room = data.roomId ? this.rooms.get(data.roomId) : null;
+        if (!data.roomId) {
+            room = Array.from(this.rooms.values()).find(r => this.isInGame(r)) || this.rooms.values().next().value;
+        }
+        if (!room) {
+            console.log(`观战者 ${data.playerId} 观战失败: 房间 ${data.roomId || '(任意)'} 不存在`);
+            this.sendToClient(clientId, {
+                type: 'spectateFailed',
+                data: { roomId: data.roomId || null }
+            });
+            return;
+        }
+
+        // 已作为玩家或在其他房间观战时先离开
+        if (client.roomId && (client.roomId !== room.id || !client.isSpectator)) {
+            this.handleLeaveRoom(clientId, {});
+        }
+
+        const spectatorId = data.playerId;
+        room.spectators.set(spectatorId, {
+            spectatorId: spectatorId,
+            clientId: clientId,
+            ackedFrame: -1 // 客户端确认已连续收到的最高帧
+        });
+        client.playerId = spectatorId;
+        client.roomId = room.id;
+        client.isSpectator = true;
+
+        this.sendToClient(clientId, {
+            type: 'spectateInfo',
+            data: {
+                roomId: room.id,
+                ownerId: room.ownerId,
+                delayFrames: this.getSpectatorDelayFrames(room),
+                matchConfig: room.matchConfig,
+                players: Array.from(room.players.values()).map(p => ({
+                    playerId: p.playerId,
+                    connected: p.connected
+                }))
+            }
+        });
+        console.log(`观战者 ${spectatorId} 进入房间 ${room.id}, 延迟 ${this.getSpectatorDelayFrames(room)} 帧`);
+        this.broadcastRoomState(room.id);
+
+        // 对局进行中：从第0帧追帧到延迟后的可见帧（不向玩家请求快照，快照是实时状态）
+        if (this.isInGame(room)) {
+            this.sendSpectatorSnapshot(room, room.spectators.get(spectatorId));
+        }
+    }
+
+    /**
+     * 观战延迟对应的帧数
+     */
+    getSpectatorDelayFrames(room) {
+        return Math.ceil(this.spectatorDelay * room.matchConfig.frameRate / 1000);
+    }
+
+    /**
+     * 观战者当前可以收到的最高帧
+     * 对局结束后不再需要延迟
+     */
+    getSpectatorVisibleFrame(room) {
+        const latestFrame = room.frameHistory.length - 1;
+        if (room.gameState === 'finished') {
+            return latestFrame;
+        }
+        return latestFrame - this.getSpectatorDelayFrames(room);
+    }
+
+    /**
+     * 向观战者发送开局数据和截至可见帧的全部历史帧，由客户端从第0帧追帧
+     */
+    sendSpectatorSnapshot(room, spectator) {
+        const visibleFrame = this.getSpectatorVisibleFrame(room);
+        spectator.ackedFrame = visibleFrame;
+        this.sendToClient(spectator.clientId, {
+            type: 'stateSnapshot',
+            data: {
+                roomId: room.id,
+                frameId: 0,
+                state: null,
+                randomSeed: room.randomSeed,
+                matchConfig: room.matchConfig,
+                startPlayers: room.startPlayers,
+                players: Array.from(room.players.values()).map(p => ({
+                    playerId: p.playerId
+                })),
+                pauseFrame: null,
+                frames: room.frameHistory.slice(0, visibleFrame + 1)
+            }
+        });
+    }
+
+    /**
+     * 向观战者发送可见帧，并附带其尚未确认的最近几帧
+     * 对局结束时一次补齐剩余的帧
+     */
+    broadcastSpectatorFrames(room) {
+        const visibleFrame = this.getSpectatorVisibleFrame(room);
+        if (visibleFrame < 0) {
+            return;
+        }
+        const maxFrames = room.gameState === 'finished' ? Infinity : this.maxRedundantFrames + 1;
+        room.spectators.forEach(spectator => {
+            if (spectator.ackedFrame >= visibleFrame) {
+                return;
+            }
+            const fromFrame = Math.max(spectator.ackedFrame + 1, visibleFrame - maxFrames + 1);
+            this.sendToClient(spectator.clientId, {
+                type: 'frameData',
+                data: {
+                    frames: room.frameHistory.slice(fromFrame, visibleFrame + 1)
+                }
+            });
+        });
+    }
+
+    /**
+     * 将观战者从房间移除
+     */
+    removeSpectator(room, spectatorId) {
+        if (room.spectators.delete(spectatorId)) {
+            console.log(`观战者 ${spectatorId} 离开房间 ${room.id}`);
+            this.broadcastRoomState(room.id);
+        }
+    }
+
+    /**
+     * 向房间内所有观战者发送消息
+     */
+    broadcastToSpectators(room, message) {
+        room.spectators.forEach(spectator => {
+            this.sendToClient(spectator.clientId, message);
+        });
+    }
+
+    /**
+     * 断线玩家重新连接，恢复其在房间中的席位
+     */
+    handleRejoinRoom(clientId, data) {
+        const { roomId, playerId } = data;
+        const client = this.clients.get(clientId);
+        const room = this.rooms.get(roomId);
+
+        if (!client) {
+            return;
+        }
+
+        const player = room ? room.players.get(playerId) : null;
+        if (!player) {
+            console.log(`玩家 ${playerId} 重连失败: 房间 ${roomId} 中没有保留的席位`);
+            this.sendToClient(clientId, {
+                type: 'rejoinFailed',
+                data: { roomId: roomId, playerId: playerId }
+            });
+            return;
+        }
+
+        if (player.disconnectTimer) {
+            clearTimeout(player.disconnectTimer);
+            player.disconnectTimer = null;
+        }
+        // 旧连接可能尚未检测到断开
+        if (player.clientId && player.clientId !== clientId) {
+            const oldClient = this.clients.get(player.clientId);
+            if (oldClient) {
+                oldClient.playerId = null;
+                oldClient.roomId = null;
+            }
+        }
+        player.clientId = clientId;
+        player.connected = true;
+        // 新连接的输入序号可能从头开始（如客户端重启），旧连接的输入已不再接收
+        player.lastInputSequence = 0;
+        client.playerId = playerId;
+        client.roomId = roomId;
+
+        console.log(`玩家 ${playerId} 重新连接到房间 ${roomId}`);
+        this.broadcastRoomState(roomId);
+
+        if (this.isInGame(room)) {
+            this.requestSnapshot(room, clientId);
+        }
+    }
+
+    /**
+     * 向一名在线玩家请求状态快照，转发给需要追帧的客户端
+     * 没有可用玩家或超时时，让客户端从第0帧开始追帧
+     */
+    requestSnapshot(room, targetClientId) {
+        const peer = Array.from(room.players.values()).find(p => p.connected && p.clientId !== targetClientId);
+        if (!peer) {
+            this.sendSnapshot(room, targetClientId, 0, null);
+            return;
+        }
+
+        const requestId = 'snap_' + Date.now().toString(36) + Math.random().toString(36).substr(2, 5);
+        const timer = setTimeout(() => {
+            if (room.pendingSnapshots.delete(requestId)) {
+                console.warn(`房间 ${room.id} 等待状态快照超时，改为从第0帧追帧`);
+                this.sendSnapshot(room, targetClientId, 0, null);
+            }
+        }, this.snapshotTimeout);
+        room.pendingSnapshots.set(requestId, { targetClientId: targetClientId, timer: timer });
+
+        this.sendToClient(peer.clientId, {
+            type: 'snapshotRequest',
+            data: { requestId: requestId }
+        });
+    }
+
+    /**
+     * 收到其他玩家提供的状态快照
+     */
+    handleStateSnapshot(clientId, data) {
+        const client = this.clients.get(clientId);
+        const room = client && client.roomId ? this.rooms.get(client.roomId) : null;
+        if (!room) {
+            return;
+        }
+
+        const pending = room.pendingSnapshots.get(data.requestId);
+        if (!pending) {
+            return;
+        }
+        clearTimeout(pending.timer);
+        room.pendingSnapshots.delete(data.requestId);
+
+        this.sendSnapshot(room, pending.targetClientId, data.frameId, data.state);
+    }
+
+    /**
+     * 发送状态快照以及从快照帧开始的历史帧
+     */
+    sendSnapshot(room, targetClientId, frameId, state) {
+        // 快照附带了截至当前的全部历史帧，之后只需补发新帧
+        const client = this.clients.get(targetClientId);
+        const player = client ? room.players.get(client.playerId) : null;
+        if (player) {
+            player.ackedFrame = room.frameHistory.length - 1;
+        }
+
+        this.sendToClient(targetClientId, {
+            type: 'stateSnapshot',
+            data: {
+                roomId: room.id,
+                frameId: frameId,
+                state: state,
+                randomSeed: room.randomSeed,
+                matchConfig: room.matchConfig,
+                startPlayers: room.startPlayers,
+                players: Array.from(room.players.values()).map(p => ({
+                    playerId: p.playerId
+                })),
+                // 房间已暂停时，追帧到暂停帧后保持暂停
+                pauseFrame: room.gameState === 'paused' ? room.currentFrame : null,
+                frames: room.frameHistory.slice(frameId)
+            }
+        });
+    }
+
+    /**
+     * 在指定帧插入服务器生成的输入
+     */
+    addSystemInput(room, frameId, input) {
+        if (!room.inputBuffer.has(frameId)) {
+            room.inputBuffer.set(frameId, []);
+        }
+        room.inputBuffer.get(frameId).push(input);
     }
 
     handleLeaveRoom(clientId, data) {
@@ -194,16 +592,52 @@ class FrameSyncServer {
             return;
         }
         
-        const roomId = client.roomId;
+        if (client.isSpectator) {
+            const room = this.rooms.get(client.roomId);
+            if (room) {
+                this.removeSpectator(room, client.playerId);
+            }
+        } else {
+            this.removePlayer(client.roomId, client.playerId);
+        }
+        
+        client.playerId = null;
+        client.roomId = null;
+        client.isSpectator = false;
+    }
+
+    /**
+     * 将玩家从房间移除
+     */
+    removePlayer(roomId, leavingPlayerId) {
         const room = this.rooms.get(roomId);
         if (room) {
-            const leavingPlayerId = client.playerId;
+            const player = room.players.get(leavingPlayerId);
+            if (player && player.disconnectTimer) {
+                clearTimeout(player.disconnectTimer);
+            }
             room.players.delete(leavingPlayerId);
             
             // 如果房间为空，删除房间
             if (room.players.size === 0) {
-                this.rooms.delete(client.roomId);
-                this.stopGameLoop(client.roomId);
+                // 通知观战者房间已关闭
+                this.broadcastToSpectators(room, {
+                    type: 'spectateEnded',
+                    data: { roomId: roomId }
+                });
+                room.spectators.forEach(spectator => {
+                    const spectatorClient = this.clients.get(spectator.clientId);
+                    if (spectatorClient) {
+                        spectatorClient.playerId = null;
+                        spectatorClient.roomId = null;
+                        spectatorClient.isSpectator = false;
+                    }
+                });
+                room.spectators.clear();
+                room.pendingSnapshots.forEach(pending => clearTimeout(pending.timer));
+                this.clearPauseTimers(room);
+                this.rooms.delete(roomId);
+                this.stopGameLoop(roomId);
             } else {
                 // 如果离开的是房主，则重新选举一个
                 if (room.ownerId === leavingPlayerId) {
@@ -213,9 +647,6 @@ class FrameSyncServer {
                 this.broadcastRoomState(roomId);
             }
         }
-        
-        client.playerId = null;
-        client.roomId = null;
     }
 
     handlePlayerInput(clientId, data) {
@@ -234,8 +665,45 @@ class FrameSyncServer {
         // 接收到的输入，将在服务器当前帧的基础上，加上缓冲帧数后生效
         const bufferFrames = 1; // 改为0以实现本地最低延迟 (原为3或1)
         const targetFrame = room.currentFrame + bufferFrames;
-        const { input } = data;
-        
+        const player = room.players.get(client.playerId);
+        if (!player || !data || !Array.isArray(data.inputs)) {
+            return;
+        }
+
+        // 客户端会重复发送最近几条未确认的输入：按序号递增接收，丢弃重复和过期的输入
+        const acks = [];
+        data.inputs.forEach(input => {
+            if (!input || typeof input.sequence !== 'number' || !Number.isFinite(input.sequence)) {
+                return;
+            }
+            if (!this.clientInputTypes.has(input.inputType)) {
+                return;
+            }
+            if (input.sequence <= player.lastInputSequence) {
+                return;
+            }
+            player.lastInputSequence = input.sequence;
+            // 输入归属以连接绑定的玩家为准，不信任客户端填写的玩家ID
+            input.playerId = client.playerId;
+            if (this.scheduleInput(room, targetFrame, input)) {
+                acks.push({ sequence: input.sequence, frameId: targetFrame });
+            }
+        });
+
+        // 告知客户端每个序号的生效帧
+        if (acks.length > 0) {
+            this.sendToClient(clientId, {
+                type: 'inputAck',
+                data: { acks }
+            });
+        }
+    }
+
+    /**
+     * 将玩家输入放入指定帧，同一帧内的新输入覆盖旧输入
+     * @returns 输入是否被采用
+     */
+    scheduleInput(room, targetFrame, input) {
         // 确保该帧的输入数组存在
         if (!room.inputBuffer.has(targetFrame)) {
             room.inputBuffer.set(targetFrame, []);
@@ -249,12 +717,293 @@ class FrameSyncServer {
         );
         
         if (playerInputIndex > -1) {
+            // 服务器插入的加入指令不能被覆盖
+            if (frameInputs[playerInputIndex].inputType === 'join') {
+                return false;
+            }
             // 如果有，用新的输入覆盖旧的输入
             frameInputs[playerInputIndex] = input;
         } else {
             // 如果没有，直接添加新输入
             frameInputs.push(input);
         }
+        return true;
+    }
+
+    /**
+     * 收集客户端上报的状态哈希，所有玩家都上报后进行比较
+     */
+    handleStateHash(clientId, data) {
+        const client = this.clients.get(clientId);
+
+        if (!client || !client.roomId) {
+            return;
+        }
+
+        // 游戏结束后客户端仍可能上报尚未确认的哈希
+        const room = this.rooms.get(client.roomId);
+        if (!room || room.gameState === 'waiting') {
+            return;
+        }
+
+        const { frameId, hash } = data;
+
+        // 服务器已计算该帧的权威哈希时，直接逐个校验客户端
+        if (room.serverHashes.has(frameId)) {
+            this.verifyStateHash(room, client, frameId, hash);
+            return;
+        }
+
+        if (!room.stateHashes.has(frameId)) {
+            room.stateHashes.set(frameId, new Map());
+        }
+        const frameHashes = room.stateHashes.get(frameId);
+        frameHashes.set(client.playerId, hash);
+
+        if (frameHashes.size < this.getConnectedPlayerCount(room)) {
+            return;
+        }
+
+        const hashes = Array.from(frameHashes.values());
+        const isConsistent = hashes.every(h => h === hashes[0]);
+        room.stateHashes.delete(frameId);
+
+        // 只通知首个分歧帧，之后的帧必然也不一致
+        if (!isConsistent && (room.desyncFrame === null || frameId < room.desyncFrame)) {
+            room.desyncFrame = frameId;
+            console.warn(`房间 ${room.id} 在帧 ${frameId} 检测到状态不同步:`, Object.fromEntries(frameHashes));
+            this.broadcastToRoom(room.id, {
+                type: 'desync',
+                data: {
+                    frameId: frameId,
+                    hashes: Object.fromEntries(frameHashes)
+                }
+            });
+        }
+    }
+
+    /**
+     * 将客户端上报的哈希与服务器权威哈希比较，不一致的客户端单独通知
+     */
+    verifyStateHash(room, client, frameId, hash) {
+        const serverHash = room.serverHashes.get(frameId);
+        if (hash === serverHash) {
+            return;
+        }
+
+        const player = room.players.get(client.playerId);
+        // 只通知该客户端的首个分歧帧
+        if (!player || (player.desyncFrame !== null && player.desyncFrame <= frameId)) {
+            return;
+        }
+        player.desyncFrame = frameId;
+        console.warn(`房间 ${room.id} 玩家 ${client.playerId} 在帧 ${frameId} 与服务器状态不一致: 客户端 ${hash}, 服务器 ${serverHash}`);
+        this.sendToClient(player.clientId, {
+            type: 'desync',
+            data: {
+                frameId: frameId,
+                serverHash: serverHash,
+                hashes: { server: serverHash, [client.playerId]: hash }
+            }
+        });
+    }
+
+    /**
+     * 校验客户端上报的对局结果，与服务器判定不一致时拒绝
+     */
+    handleResultReport(clientId, data) {
+        const client = this.clients.get(clientId);
+        const room = client && client.roomId ? this.rooms.get(client.roomId) : null;
+        if (!room) {
+            return;
+        }
+
+        const result = room.result;
+        const accepted = result !== null &&
+            data.frameId === result.frameId &&
+            data.winnerId === result.winnerId &&
+            this.isSameScores(data.scores, result.scores);
+
+        if (accepted) {
+            console.log(`房间 ${room.id} 玩家 ${client.playerId} 上报的对局结果与服务器一致`);
+            return;
+        }
+
+        console.warn(`房间 ${room.id} 玩家 ${client.playerId} 上报的对局结果与服务器不一致:`, data, '服务器:', result);
+        this.sendToClient(clientId, {
+            type: 'resultRejected',
+            data: {
+                reported: data,
+                result: result
+            }
+        });
+    }
+
+    /**
+     * 比较两份积分列表 [playerId, score][]
+     */
+    isSameScores(a, b) {
+        if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) {
+            return false;
+        }
+        const scores = new Map(b);
+        return a.every(([playerId, score]) => scores.get(playerId) === score);
+    }
+
+    /**
+     * 玩家请求暂停：单人直接暂停，多人发起投票
+     */
+    handlePauseRequest(clientId, data) {
+        const client = this.clients.get(clientId);
+        const room = client && client.roomId ? this.rooms.get(client.roomId) : null;
+        if (!room || room.gameState !== 'playing' || room.pauseVote) {
+            return;
+        }
+
+        room.pauseVote = {
+            id: 'vote_' + Date.now().toString(36) + Math.random().toString(36).substr(2, 5),
+            requesterId: client.playerId,
+            votes: new Map([[client.playerId, true]]),
+            timer: setTimeout(() => this.finishPauseVote(room, false), this.pauseVoteTimeout)
+        };
+        console.log(`房间 ${room.id} 玩家 ${client.playerId} 发起暂停投票`);
+        this.evaluatePauseVote(room);
+    }
+
+    /**
+     * 玩家对暂停投票表态
+     */
+    handlePauseVote(clientId, data) {
+        const client = this.clients.get(clientId);
+        const room = client && client.roomId ? this.rooms.get(client.roomId) : null;
+        if (!room || !room.pauseVote || room.pauseVote.id !== data.voteId) {
+            return;
+        }
+        room.pauseVote.votes.set(client.playerId, !!data.agree);
+        this.evaluatePauseVote(room);
+    }
+
+    /**
+     * 在线玩家过半同意则暂停，同意票已不可能过半则否决，否则广播投票进度
+     */
+    evaluatePauseVote(room) {
+        const vote = room.pauseVote;
+        const connectedCount = this.getConnectedPlayerCount(room);
+        const required = this.getPauseVoteRequired(room);
+        let agreeCount = 0;
+        let rejectCount = 0;
+        vote.votes.forEach(agree => agree ? agreeCount++ : rejectCount++);
+
+        if (agreeCount >= required) {
+            this.finishPauseVote(room, true);
+        } else if (connectedCount - rejectCount < required) {
+            this.finishPauseVote(room, false);
+        } else {
+            this.broadcastPauseVote(room, 'pending');
+        }
+    }
+
+    /**
+     * 结束暂停投票
+     */
+    finishPauseVote(room, passed) {
+        const vote = room.pauseVote;
+        if (!vote) {
+            return;
+        }
+        clearTimeout(vote.timer);
+        this.broadcastPauseVote(room, passed ? 'passed' : 'rejected');
+        room.pauseVote = null;
+
+        if (passed && room.gameState === 'playing') {
+            this.pauseGame(room);
+        } else if (!passed) {
+            console.log(`房间 ${room.id} 暂停投票未通过`);
+        }
+    }
+
+    /**
+     * 暂停需要的同意票数：在线玩家过半
+     */
+    getPauseVoteRequired(room) {
+        return Math.floor(this.getConnectedPlayerCount(room) / 2) + 1;
+    }
+
+    /**
+     * 广播暂停投票状态
+     */
+    broadcastPauseVote(room, status) {
+        const vote = room.pauseVote;
+        this.broadcastToRoom(room.id, {
+            type: 'pauseVote',
+            data: {
+                voteId: vote.id,
+                requesterId: vote.requesterId,
+                status: status,
+                votes: Object.fromEntries(vote.votes),
+                required: this.getPauseVoteRequired(room)
+            }
+        });
+    }
+
+    /**
+     * 在当前帧暂停房间：停止游戏循环，所有客户端执行完暂停帧之前的帧后停下
+     */
+    pauseGame(room) {
+        room.gameState = 'paused';
+        this.stopGameLoop(room.id);
+        this.broadcastToRoom(room.id, {
+            type: 'gamePaused',
+            data: { frameId: room.currentFrame }
+        });
+        console.log(`房间 ${room.id} 在帧 ${room.currentFrame} 暂停`);
+    }
+
+    /**
+     * 玩家请求恢复：倒计时结束后恢复游戏循环
+     */
+    handleResumeRequest(clientId, data) {
+        const client = this.clients.get(clientId);
+        const room = client && client.roomId ? this.rooms.get(client.roomId) : null;
+        if (!room || room.gameState !== 'paused' || room.resumeTimer) {
+            return;
+        }
+
+        console.log(`房间 ${room.id} 玩家 ${client.playerId} 请求恢复, ${this.resumeCountdown} 秒后继续`);
+        this.broadcastToRoom(room.id, {
+            type: 'resumeCountdown',
+            data: {
+                frameId: room.currentFrame,
+                countdown: this.resumeCountdown
+            }
+        });
+        room.resumeTimer = setTimeout(() => {
+            room.resumeTimer = null;
+            if (room.gameState !== 'paused') {
+                return;
+            }
+            room.gameState = 'playing';
+            this.broadcastToRoom(room.id, {
+                type: 'gameResumed',
+                data: { frameId: room.currentFrame }
+            });
+            this.startGameLoop(room.id);
+            console.log(`房间 ${room.id} 从帧 ${room.currentFrame} 恢复`);
+        }, this.resumeCountdown * 1000);
+    }
+
+    /**
+     * 清理暂停投票和恢复倒计时
+     */
+    clearPauseTimers(room) {
+        if (room.pauseVote) {
+            clearTimeout(room.pauseVote.timer);
+            room.pauseVote = null;
+        }
+        if (room.resumeTimer) {
+            clearTimeout(room.resumeTimer);
+            room.resumeTimer = null;
+        }
     }
 
     handleGameStart(clientId, data) {
@@ -285,24 +1034,50 @@ class FrameSyncServer {
             return;
         }
         
+        this.stopGameLoop(roomId);
+        this.clearPauseTimers(room);
         room.gameState = 'playing';
         room.currentFrame = 0;
+        room.stateHashes.clear();
+        room.desyncFrame = null;
+        room.frameHistory = [];
+        room.serverHashes.clear();
+        room.result = null;
+        room.players.forEach(player => {
+            player.desyncFrame = null;
+            player.ackedFrame = -1;
+            player.lastInputSequence = 0;
+        });
+        room.spectators.forEach(spectator => {
+            spectator.ackedFrame = -1;
+        });
+        room.startPlayers = Array.from(room.players.values()).map(p => ({
+            playerId: p.playerId
+        }));
         
         // 生成确定性随机种子（基于房间ID和时间戳）
         const randomSeed = this.generateRandomSeed(roomId);
+        room.randomSeed = randomSeed;
+
+        // 启动服务器权威模拟，与客户端使用相同的种子、玩家顺序和参数
+        room.simulation = new GameSimulation(room.matchConfig);
+        room.simulation.start(randomSeed, room.startPlayers.map(p => p.playerId));
         
         // 清理积分事件历史 - 此逻辑移至客户端
         // this.clearScoreEventsForRoom(roomId);
         
-        // 通知所有玩家游戏开始，包含当前帧信息和随机种子
-        this.broadcastToRoom(roomId, {
+        // 通知所有玩家和观战者游戏开始，包含当前帧信息和随机种子
+        const gameStartMessage = {
             type: 'gameStart',
             data: {
                 timestamp: Date.now(),
                 currentFrame: room.currentFrame,
-                randomSeed: randomSeed
+                randomSeed: randomSeed,
+                matchConfig: room.matchConfig
             }
-        });
+        };
+        this.broadcastToRoom(roomId, gameStartMessage);
+        this.broadcastToSpectators(room, gameStartMessage);
         
         // 延迟启动游戏循环，给客户端时间同步
         setTimeout(() => {
@@ -321,7 +1096,7 @@ class FrameSyncServer {
         
         const gameLoop = setInterval(() => {
             this.processFrame(roomId);
-        }, this.frameInterval);
+        }, 1000 / room.matchConfig.frameRate);
         
         this.gameLoops.set(roomId, gameLoop);
     }
@@ -348,17 +1123,160 @@ class FrameSyncServer {
             inputs: currentInputs,
             timestamp: Date.now()
         };
+        room.frameHistory.push(frameData);
         
-        // 发送帧数据给所有玩家
-        this.broadcastToRoom(roomId, {
-            type: 'frameData',
-            data: frameData
-        });
+        // 发送帧数据给所有玩家（附带各自未确认的帧），观战者收到延迟后的帧
+        this.broadcastFrame(room);
+        this.broadcastSpectatorFrames(room);
+
+        // 推进服务器权威模拟
+        this.stepSimulation(room, frameData);
         
         // 清理旧的输入缓冲
         room.inputBuffer.delete(room.currentFrame - 10);
+
+        // 清理长时间未收齐的状态哈希（例如有玩家中途离开）
+        for (const frameId of room.stateHashes.keys()) {
+            if (frameId < room.currentFrame - 300) {
+                room.stateHashes.delete(frameId);
+            }
+        }
+        for (const frameId of room.serverHashes.keys()) {
+            if (frameId < room.currentFrame - 300) {
+                room.serverHashes.delete(frameId);
+            }
+        }
         
         room.currentFrame++;
+
+        if (room.simulation && room.simulation.isGameOver) {
+            this.finishGame(room);
+        }
+    }
+
+    /**
+     * 向每个在线玩家发送最新帧，并附带该玩家尚未确认的最近几帧
+     */
+    broadcastFrame(room) {
+        const latestFrame = room.frameHistory.length - 1;
+        room.players.forEach(player => {
+            if (!player.connected) {
+                return;
+            }
+            const fromFrame = Math.max(player.ackedFrame + 1, latestFrame - this.maxRedundantFrames);
+            this.sendToClient(player.clientId, {
+                type: 'frameData',
+                data: {
+                    frames: room.frameHistory.slice(fromFrame)
+                }
+            });
+        });
+    }
+
+    /**
+     * 应答 ping，附带服务器收到和发出的时间，客户端据此估算往返时延和时钟偏移
+     */
+    handlePing(clientId, data, receiveTime) {
+        this.sendToClient(clientId, {
+            type: 'pong',
+            data: {
+                clientTime: data.clientTime,
+                serverReceiveTime: receiveTime,
+                serverSendTime: Date.now()
+            }
+        });
+    }
+
+    /**
+     * 客户端确认已连续收到直到指定帧的全部帧
+     */
+    handleFrameAck(clientId, data) {
+        const client = this.clients.get(clientId);
+        if (!client || !client.roomId) {
+            return;
+        }
+        const room = this.rooms.get(client.roomId);
+        if (!room) {
+            return;
+        }
+        const member = client.isSpectator ? room.spectators.get(client.playerId) : room.players.get(client.playerId);
+        if (!member) {
+            return;
+        }
+        const latestFrame = client.isSpectator ? this.getSpectatorVisibleFrame(room) : room.frameHistory.length - 1;
+        const frameId = Math.min(data.frameId, latestFrame);
+        if (frameId > member.ackedFrame) {
+            member.ackedFrame = frameId;
+        }
+    }
+
+    /**
+     * 客户端请求重发丢失的帧
+     */
+    handleResendFrames(clientId, data) {
+        const client = this.clients.get(clientId);
+        if (!client || !client.roomId) {
+            return;
+        }
+        const room = this.rooms.get(client.roomId);
+        if (!room || room.gameState === 'waiting') {
+            return;
+        }
+        // 观战者不能通过重发请求提前拿到延迟之内的帧
+        const latestFrame = client.isSpectator ? this.getSpectatorVisibleFrame(room) : room.frameHistory.length - 1;
+        const fromFrame = Math.max(0, data.fromFrame);
+        const toFrame = Math.min(data.toFrame, latestFrame, fromFrame + this.maxResendFrames - 1);
+        if (toFrame < fromFrame) {
+            return;
+        }
+        console.log(`房间 ${room.id} 玩家 ${client.playerId} 请求重发帧 ${fromFrame}-${toFrame}`);
+        this.sendToClient(clientId, {
+            type: 'frameData',
+            data: {
+                frames: room.frameHistory.slice(fromFrame, toFrame + 1)
+            }
+        });
+    }
+
+    /**
+     * 用本帧数据推进服务器模拟，并在校验帧记录权威哈希
+     */
+    stepSimulation(room, frameData) {
+        if (!room.simulation) {
+            return;
+        }
+        room.simulation.step(frameData);
+        if (this.checksumInterval > 0 && frameData.frameId % this.checksumInterval === 0) {
+            room.serverHashes.set(frameData.frameId, room.simulation.computeHash(frameData.frameId));
+        }
+    }
+
+    /**
+     * 服务器模拟判定游戏结束：公布官方结果并停止房间循环
+     */
+    finishGame(room) {
+        const simulation = room.simulation;
+        room.result = {
+            frameId: simulation.gameOverFrame,
+            winnerId: simulation.winnerId,
+            scores: Array.from(simulation.getScores().entries())
+        };
+        room.gameState = 'finished';
+        this.stopGameLoop(room.id);
+        this.clearPauseTimers(room);
+
+        this.broadcastToRoom(room.id, {
+            type: 'gameResult',
+            data: room.result
+        });
+
+        // 观战者补齐剩余的帧后再收到结果
+        this.broadcastSpectatorFrames(room);
+        this.broadcastToSpectators(room, {
+            type: 'gameResult',
+            data: room.result
+        });
+        console.log(`房间 ${room.id} 游戏结束, 帧 ${room.result.frameId}, 获胜者: ${room.result.winnerId || '无'}, 积分:`, room.result.scores);
     }
 
     broadcastRoomState(roomId) {
@@ -369,26 +1287,75 @@ class FrameSyncServer {
             roomId: room.id,
             ownerId: room.ownerId,
             players: Array.from(room.players.values()).map(p => ({
-                playerId: p.playerId
-            }))
+                playerId: p.playerId,
+                connected: p.connected
+            })),
+            spectatorCount: room.spectators.size
         };
 
         this.broadcastToRoom(roomId, {
             type: 'roomInfo',
             data: roomState
         });
+        this.broadcastToSpectators(room, {
+            type: 'roomInfo',
+            data: roomState
+        });
     }
 
     handleDisconnect(clientId) {
         const client = this.clients.get(clientId);
         
         if (client && client.roomId) {
-            this.handleLeaveRoom(clientId, {});
+            const room = this.rooms.get(client.roomId);
+            const player = room && !client.isSpectator ? room.players.get(client.playerId) : null;
+            if (room && this.isInGame(room) && player && player.clientId === clientId) {
+                // 游戏进行中断线：保留席位一段时间，等待重连
+                this.holdPlayerSlot(room, player);
+            } else {
+                this.handleLeaveRoom(clientId, {});
+            }
         }
         
         this.clients.delete(clientId);
     }
 
+    /**
+     * 保留断线玩家的席位，超时后移除
+     */
+    holdPlayerSlot(room, player) {
+        player.connected = false;
+        player.clientId = null;
+        player.disconnectTimer = setTimeout(() => {
+            player.disconnectTimer = null;
+            console.log(`玩家 ${player.playerId} 重连超时，移出房间 ${room.id}`);
+            this.removePlayer(room.id, player.playerId);
+        }, this.reconnectGracePeriod);
+
+        console.log(`玩家 ${player.playerId} 断线，保留席位 ${this.reconnectGracePeriod}ms`);
+        this.broadcastRoomState(room.id);
+    }
+
+    /**
+     * 房间是否处于对局中（进行中或暂停）
+     */
+    isInGame(room) {
+        return room.gameState === 'playing' || room.gameState === 'paused';
+    }
+
+    /**
+     * 获取房间内在线玩家数量
+     */
+    getConnectedPlayerCount(room) {
+        let count = 0;
+        room.players.forEach(player => {
+            if (player.connected) {
+                count++;
+            }
+        });
+        return count;
+    }
+
     sendToClient(clientId, message) {
         const client = this.clients.get(clientId);
         